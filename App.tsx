@@ -1,11 +1,79 @@
 
 import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { ethers, Log } from "ethers";
-import { TokenType, MintItem, CollSummary, ContractMeta } from './types';
-// FIX: import ZERO_TOPIC to resolve "Cannot find name" errors.
-import { HTTP_URL, WS_URL, ZERO_ADDR, ZERO_TOPIC, TRANSFER_TOPIC, TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC, METADATA_ABI, MINT_CONTRACT_WHITELIST, CHAIN_ID } from './constants';
+import { TokenType, MintItem, TransferItem, ActivityItem, ActivityMode, CollSummary, ContractMeta, NetworkConfig, RetentionSettings, GatewaySettings, AlertSettings, RiskOverrides, RpcSettings } from './types';
+import { MINT_LOG_TOPICS, DEFAULT_SCAN_BLOCKS, SCAN_INITIAL_CHUNK, SCAN_MAX_CHUNK, SCAN_CHUNK_ATTEMPTS, SCAN_RETRY_DELAY_MS, WALLET_SCAN_MAX_CHUNK, REGISTRY_BACKFILL_MAX_CHUNK, TX_CACHE_SIZE, BLOCK_CACHE_SIZE, REGISTRY_PROBE_CACHE_SIZE, LIVE_BATCH_DELAY_MS, LIVE_RETRY_DELAY_MS, WS_HEARTBEAT_MS, WS_HEARTBEAT_TIMEOUT_MS, WS_BACKOFF_BASE_MS, WS_BACKOFF_MAX_MS, WS_DEGRADE_AFTER, POLL_INTERVAL_MS, RPC_MAX_ATTEMPTS, RPC_BACKOFF_BASE_MS, RPC_BACKOFF_MAX_MS, RPC_REQUEST_TIMEOUT_MS, REORG_CHECK_DEPTH, MINT_BUFFER_CAP, SEEN_KEYS_CAP, TOKEN_META_CACHE_SIZE, TOKEN_META_FETCH_TIMEOUT_MS } from './constants';
 
-const shortenAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+import { createMintWhitelist } from './core/decoder';
+import { fetchContractMeta } from './core/contractMeta';
+import { mintKey, compareMints, isMint, isTransfer, applyActivity, applyMeta, retractActivity, buildSummaries } from './core/aggregator';
+import { MintBuffer } from './core/mintBuffer';
+import { LruCache } from './core/lru';
+import { ChainLookup } from './core/lookup';
+import { RpcPool, PooledJsonRpcProvider } from './core/rpcPool';
+import { collectMints, collectTransfers } from './core/pipeline';
+import { CollectionRegistry, RegistryEntry } from './core/registry';
+import { scanLogs } from './core/scan';
+import { WsConnectionManager, ConnectionState } from './core/connection';
+import { BlockHashTracker } from './core/reorg';
+import { NETWORKS, getNetwork, loadSelectedNetworkId, saveSelectedNetworkId, networkEndpoints } from './networks';
+import { MintStore, loadRetention, saveRetention, loadGateways, saveGateways, loadAlertSettings, saveAlertSettings, loadApiUrl, saveApiUrl, loadActivityMode, saveActivityMode, loadWalletAddress, saveWalletAddress, loadRiskOverrides, saveRiskOverrides, loadRpcSettings, saveRpcSettings } from './storage';
+import { MintFilters, SortState, MintSortKey, SummarySortKey, DEFAULT_MINT_SORT, isFiltered, filterMints, filterSummaries, sortMints, sortSummaries, filtersFromQuery, filtersToQuery } from './core/filters';
+import FilterBar from './components/FilterBar';
+import SortHeader from './components/SortHeader';
+import VirtualTable, { ROW_HEIGHT } from './components/VirtualTable';
+import TokenThumb from './components/TokenThumb';
+import { shortenAddress, formatAmount, fmtTime, getTypePill, getMatchBadge, getActivityBadge, getRiskBadges } from './components/format';
+import MintDrawer from './components/MintDrawer';
+import CollectionPage from './components/CollectionPage';
+import MyMintsPage, { HoldingsState } from './components/MyMintsPage';
+import AlertsPanel from './components/AlertsPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import Toasts from './components/Toasts';
+import { TokenMetadataResolver } from './core/tokenMetadata';
+import { Alert, AlertEngine, notifyBrowser, postWebhook } from './core/alerts';
+import { TrackerApiClient } from './core/apiClient';
+import { getInjectedWallet, connectWallet, getWalletChainId, switchWalletChain, watchWallet } from './core/wallet';
+import { walletMintFilters, holdingCandidates, verifyHoldings } from './core/portfolio';
+import { RiskReport, RiskVerdict, assessRisk, isFlagged, riskVerdict, setRiskVerdict } from './core/risk';
+import { ExportFormat, MINT_COLUMNS, COLLECTION_COLUMNS, mintToRecord, summaryToRecord, serialize, parseSession, detectFormat } from './core/serialize';
+
+const PRUNE_INTERVAL_MS = 60000;
+const MAX_TOASTS = 5;
+const TOAST_TTL_MS = 10000;
+const RISK_RESCORE_MS = 1000; // assessRisk walks the whole buffer, so live flushes share one pass
+
+type LiveMode = "auto" | "ws" | "http" | "api";
+
+const EXPORT_MIME: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+const downloadText = (fileName: string, text: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Merges two newest-first lists into one, for the "All activity" table
+const mergeNewestFirst = <T extends MintItem>(a: readonly T[], b: readonly T[]): T[] => {
+  const out: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) out.push(compareMints(a[i], b[j]) <= 0 ? a[i++] : b[j++]);
+  return out.concat(a.slice(i), b.slice(j));
+};
+
+const fmtDuration = (ms: number) => {
+  const mins = Math.round(ms / 60000);
+  if (mins < 1) return `${Math.round(ms / 1000)}s`;
+  return mins < 60 ? `${mins} min` : `${(mins / 60).toFixed(1)} h`;
+};
 
 const SpinnerIcon: React.FC<{ className: string }> = ({ className }) => (
     <svg className={`animate-spin ${className}`} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -14,32 +82,191 @@ const SpinnerIcon: React.FC<{ className: string }> = ({ className }) => (
     </svg>
 );
 
+const ExportButtons: React.FC<{ onExport: (format: ExportFormat) => void; disabled: boolean }> = ({ onExport, disabled }) => (
+    <div className="flex items-center gap-1 text-xs">
+        <span className="text-gray-500 mr-1">Export:</span>
+        {(["csv", "json", "ndjson"] as ExportFormat[]).map(f => (
+            <button key={f} onClick={() => onExport(f)} disabled={disabled} className="px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-gray-300 uppercase hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed">
+                {f}
+            </button>
+        ))}
+    </div>
+);
+
+const ConnectionBadge: React.FC<{ state: ConnectionState; attempt: number; polling: boolean }> = ({ state, attempt, polling }) => {
+    const styles: Record<ConnectionState, { label: string; dot: string; text: string }> = {
+        connecting: { label: "Connecting", dot: "bg-gray-400", text: "text-gray-300" },
+        connected: { label: "Connected", dot: "bg-emerald-500", text: "text-emerald-300" },
+        reconnecting: { label: `Reconnecting (${attempt})`, dot: "bg-amber-500 animate-pulse", text: "text-amber-300" },
+        degraded: { label: polling ? "Degraded: HTTP polling" : "Degraded", dot: "bg-red-500", text: "text-red-300" },
+        closed: { label: "Disconnected", dot: "bg-gray-600", text: "text-gray-400" },
+    };
+    const s = polling && state !== "degraded"
+        ? { label: "HTTP polling", dot: "bg-sky-500", text: "text-sky-300" }
+        : styles[state];
+    return (
+        <span className={`inline-flex items-center gap-1.5 px-2 py-1 text-xs font-medium rounded-full bg-gray-900/70 ${s.text}`}>
+            <span className={`h-2 w-2 rounded-full ${s.dot}`}></span>
+            {s.label}
+        </span>
+    );
+};
+
 
 export default function App() {
-  const [httpProvider, setHttpProvider] = useState<ethers.JsonRpcProvider | null>(null);
-  const [wsProvider, setWsProvider] = useState<ethers.WebSocketProvider | null>(null);
+  const [network, setNetwork] = useState<NetworkConfig>(() => getNetwork(loadSelectedNetworkId()));
+  const [rpcSettings, setRpcSettings] = useState<RpcSettings>(() => loadRpcSettings(network.id));
+  const endpoints = useMemo(() => networkEndpoints(network, rpcSettings), [network, rpcSettings]);
+  const [chainOk, setChainOk] = useState<boolean | null>(null);
+  const [httpProvider, setHttpProvider] = useState<PooledJsonRpcProvider | null>(null);
+  const [wsManager, setWsManager] = useState<WsConnectionManager | null>(null);
+  const [connState, setConnState] = useState<ConnectionState>(endpoints.ws.length ? "connecting" : "closed");
+  const [liveMode, setLiveMode] = useState<LiveMode>(endpoints.ws.length ? "auto" : "http");
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const onReconnect = useRef<() => void>(() => {});
+  const onRegistryAdd = useRef<(entry: RegistryEntry) => void>(() => {});
+  const [registrySize, setRegistrySize] = useState(0);
+  const lastProcessedBlock = useRef<number | null>(null);
+  const resumeOffer = useRef<number | null>(null); // mirrors resumeFrom for the checkpoint writers
+  const catchingUp = useRef(false);
+  const reorgTracker = useRef(new BlockHashTracker(REORG_CHECK_DEPTH));
   const [latestBlock, setLatestBlock] = useState<number | null>(null);
   const [subscribing, setSubscribing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [mints, setMints] = useState<MintItem[]>([]);
+  // Mints live in a mutable ring buffer; bumping the version re-renders readers
+  const mintBuffer = useRef(new MintBuffer(MINT_BUFFER_CAP));
+  const transferBuffer = useRef(new MintBuffer<TransferItem>(MINT_BUFFER_CAP));
+  const [bufferVersion, setBufferVersion] = useState(0);
+  const pendingItems = useRef<ActivityItem[]>([]);
+  const frame = useRef<number | null>(null);
   const [summaries, setSummaries] = useState<Record<string, CollSummary>>({});
   const metaCache = useRef<Map<string, ContractMeta>>(new Map());
+  const seenKeys = useRef(new LruCache<string, true>(SEEN_KEYS_CAP));
+  // Lower-cased contracts with a counted mint; only their transfers are recorded
+  const trackedContracts = useRef(new Set<string>());
+  const [activityMode, setActivityMode] = useState<ActivityMode>(loadActivityMode);
+  const activityRef = useRef(activityMode);
+  const [scanFrom, setScanFrom] = useState("");
+  const [scanTo, setScanTo] = useState("");
+  const [followLive, setFollowLive] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+  const scanCancelled = useRef(false);
+  const [rpcSaved, setRpcSaved] = useState(0);
+  const pendingLogs = useRef<Log[]>([]);
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // undefined while IndexedDB is opening, null if it is unavailable
+  const [store, setStore] = useState<MintStore | null | undefined>(undefined);
+  const [restoring, setRestoring] = useState(true);
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
+  const [retention, setRetention] = useState<RetentionSettings>(loadRetention);
+  const lastPrune = useRef(0);
+  const [importedFrom, setImportedFrom] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const importInput = useRef<HTMLInputElement>(null);
+  const [gateways, setGateways] = useState<GatewaySettings>(loadGateways);
+  const [mintDetail, setMintDetail] = useState<ActivityItem | null>(null);
+  const [initialQuery] = useState(() => filtersFromQuery(new URLSearchParams(window.location.search)));
+  const [filters, setFilters] = useState<MintFilters>(initialQuery.filters);
+  const [mintSort, setMintSort] = useState<SortState<MintSortKey>>(initialQuery.mintSort);
+  const [summarySort, setSummarySort] = useState<SortState<SummarySortKey>>(initialQuery.summarySort);
+  const [collection, setCollection] = useState<string | null>(() => new URLSearchParams(window.location.search).get("collection"));
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [riskOverrides, setRiskOverrides] = useState<RiskOverrides>(loadRiskOverrides);
+  const alertEngine = useRef(new AlertEngine(alertSettings));
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [toasts, setToasts] = useState<Alert[]>([]);
+  // Read by the (long-lived) live feed callbacks to decide whether alerts fire
+  const liveRef = useRef(false);
+  const [apiUrl, setApiUrl] = useState(loadApiUrl);
+  const [apiState, setApiState] = useState<ConnectionState>("closed");
+  const closeApiFeed = useRef<(() => void) | null>(null);
+  const injectedWallet = useMemo(getInjectedWallet, []);
+  const [wallet, setWallet] = useState<string | null>(loadWalletAddress);
+  const [walletConnected, setWalletConnected] = useState(false);
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  const [showMyMints, setShowMyMints] = useState(false);
+  const [holdings, setHoldings] = useState<HoldingsState>({ status: "idle" });
+  const [holdingsToken, setHoldingsToken] = useState(0);
+  const [walletScan, setWalletScan] = useState<{ done: number; total: number } | null>(null);
+  const walletScanCancelled = useRef(false);
+
+  // Keep filters in the query string so a view can be shared as a link
+  useEffect(() => {
+    const params = filtersToQuery(new URLSearchParams(window.location.search), filters, mintSort, summarySort);
+    if (collection) params.set("collection", collection);
+    else params.delete("collection");
+    const qs = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${qs ? `?${qs}` : ""}${window.location.hash}`);
+  }, [filters, mintSort, summarySort, collection]);
 
-  // Init providers
   useEffect(() => {
-    const http = new ethers.JsonRpcProvider(HTTP_URL);
+    MintStore.open().then(setStore).catch((e) => {
+        console.error("IndexedDB unavailable, history will not be kept:", e);
+        setStore(null);
+    });
+  }, []);
+
+  // Init providers: HTTP calls go through a pool of every configured endpoint
+  useEffect(() => {
+    const pool = new RpcPool(endpoints.http, {
+        maxRps: rpcSettings.maxRps,
+        maxConcurrency: rpcSettings.maxConcurrency,
+        maxAttempts: RPC_MAX_ATTEMPTS,
+        backoffBaseMs: RPC_BACKOFF_BASE_MS,
+        backoffMaxMs: RPC_BACKOFF_MAX_MS,
+        timeoutMs: RPC_REQUEST_TIMEOUT_MS,
+    });
+    const http = new PooledJsonRpcProvider(pool);
     setHttpProvider(http);
-    try {
-        const ws = new ethers.WebSocketProvider(WS_URL);
-        setWsProvider(ws);
+    setLatestBlock(null);
+    setChainOk(null);
+
+    // Refuse to track until the RPC proves it serves the chain the registry says it does
+    let alive = true;
+    http.send("eth_chainId", []).then((hex) => {
+        if (!alive) return;
+        const actual = Number(hex);
+        setChainOk(actual === network.chainId);
+        if (actual !== network.chainId) {
+            setError(`RPC for ${network.name} reports chain id ${actual}, expected ${network.chainId}.`);
+        }
+    }).catch((e) => {
+        if (!alive) return;
+        console.error("Failed to verify chain id:", e);
+        setChainOk(false);
+        setError(`Could not verify the chain id of the ${network.name} RPC.`);
+    });
+
+    if (endpoints.ws.length === 0) {
+        setWsManager(null);
+        setConnState("closed");
         return () => {
-            ws.destroy().catch(console.error);
+            alive = false;
+            http.destroy();
         };
-    } catch (e) {
-        console.error("WebSocket provider connection failed:", e);
-        setWsProvider(null);
     }
-  }, []);
+    const manager = new WsConnectionManager(endpoints.ws, {
+        heartbeatMs: WS_HEARTBEAT_MS,
+        heartbeatTimeoutMs: WS_HEARTBEAT_TIMEOUT_MS,
+        backoffBaseMs: WS_BACKOFF_BASE_MS,
+        backoffMaxMs: WS_BACKOFF_MAX_MS,
+        degradeAfter: WS_DEGRADE_AFTER,
+        onStateChange: (state, attempt) => {
+            setConnState(state);
+            setReconnectAttempt(attempt);
+        },
+        onReconnect: () => onReconnect.current(),
+    });
+    manager.start();
+    setWsManager(manager);
+    return () => {
+        alive = false;
+        manager.stop().catch(console.error);
+        http.destroy();
+    };
+  }, [network, endpoints, rpcSettings]);
 
   // Keep latest block for default range
   useEffect(() => {
@@ -56,99 +283,94 @@ export default function App() {
     };
     
     fetchBlockNumber();
-    const int = setInterval(fetchBlockNumber, 5000);
+    const int = setInterval(fetchBlockNumber, POLL_INTERVAL_MS);
     return () => {
       alive = false;
       clearInterval(int);
     };
   }, [httpProvider]);
 
+  const registry = useMemo(
+    () => new CollectionRegistry(network.factories ?? [], network.implementations ?? [], REGISTRY_PROBE_CACHE_SIZE, (entry) => onRegistryAdd.current(entry)),
+    [network]
+  );
+
+  // Factory creation events share the subscription with the mint transfers
   const logFilter = useMemo(
     () => ({
-      topics: [[TRANSFER_TOPIC, TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC]],
+      topics: [[...MINT_LOG_TOPICS, ...registry.topics]],
     }),
-    []
+    [registry]
   );
 
-  const allowedMintContracts = useMemo(() => new Set(MINT_CONTRACT_WHITELIST.map(a => a.toLowerCase())), []);
+  const allowedMintContracts = useMemo(() => createMintWhitelist(network.mintContracts), [network]);
 
-  const processLog = useCallback((log: Log): MintItem[] => {
-    const results: MintItem[] = [];
-    const baseItem = {
-      blockNumber: log.blockNumber,
-      txHash: log.transactionHash,
-      logIndex: log.index,
-      contract: ethers.getAddress(log.address),
-    };
+  const apiClient = useMemo(() => (apiUrl.trim() ? new TrackerApiClient(apiUrl.trim()) : null), [apiUrl]);
 
-    try {
-      switch (log.topics[0]) {
-        case TRANSFER_TOPIC: // ERC-20 or ERC-721
-          if (log.topics[1] === ZERO_TOPIC) {
-            const to = ethers.getAddress(`0x${log.topics[2].slice(26)}`);
-            if (log.topics.length === 4) { // ERC-721
-              results.push({
-                ...baseItem,
-                to,
-                type: TokenType.ERC721,
-                tokenId: ethers.toBigInt(log.topics[3]).toString(),
-              });
-            } else { // ERC-20
-              const amount = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], log.data)[0];
-              results.push({
-                ...baseItem,
-                to,
-                type: TokenType.ERC20,
-                amount: amount.toString(),
-              });
-            }
-          }
-          break;
-        case TRANSFER_SINGLE_TOPIC: // ERC-1155 Single
-          if (log.topics[2] === ZERO_TOPIC) {
-            const to = ethers.getAddress(`0x${log.topics[3].slice(26)}`);
-            const [id, value] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256', 'uint256'], log.data);
-            results.push({
-              ...baseItem,
-              to,
-              type: TokenType.ERC1155,
-              tokenId: id.toString(),
-              amount: value.toString(),
-            });
-          }
-          break;
-        case TRANSFER_BATCH_TOPIC: // ERC-1155 Batch
-          if (log.topics[2] === ZERO_TOPIC) {
-            const to = ethers.getAddress(`0x${log.topics[3].slice(26)}`);
-            const [ids, values] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256[]', 'uint256[]'], log.data);
-            for (let i = 0; i < ids.length; i++) {
-              results.push({
-                ...baseItem,
-                logIndex: baseItem.logIndex + i * 0.001, // pseudo-unique index for keys
-                to,
-                type: TokenType.ERC1155,
-                tokenId: ids[i].toString(),
-                amount: values[i].toString(),
-              });
-            }
-          }
-          break;
-      }
-    } catch (e) {
-      console.error("Error processing log:", log, e);
-    }
-    return results;
+  const lookup = useMemo(
+    () => (httpProvider ? new ChainLookup(httpProvider, TX_CACHE_SIZE, BLOCK_CACHE_SIZE) : null),
+    [httpProvider]
+  );
+
+  const tokenResolver = useMemo(
+    () => (httpProvider ? new TokenMetadataResolver(httpProvider, gateways, TOKEN_META_CACHE_SIZE, TOKEN_META_FETCH_TIMEOUT_MS) : null),
+    [httpProvider, gateways]
+  );
+
+  const updateApiUrl = useCallback((next: string) => {
+    setApiUrl(next);
+    saveApiUrl(next);
+    if (!next.trim()) setLiveMode(m => (m === "api" ? "auto" : m));
   }, []);
 
-  const fetchTimestamp = useCallback(async (blockNumber: number): Promise<number | undefined> => {
-    if (!httpProvider) return undefined;
-    try {
-      const blk = await httpProvider.getBlock(blockNumber);
-      return blk?.timestamp ? Number(blk.timestamp) : undefined;
-    } catch {
-      return undefined;
+  const updateGateways = useCallback((next: GatewaySettings) => {
+    setGateways(next);
+    saveGateways(next);
+  }, []);
+
+  const updateAlertSettings = useCallback((next: AlertSettings) => {
+    setAlertSettings(next);
+    saveAlertSettings(next);
+    alertEngine.current.configure(next);
+  }, []);
+
+  useEffect(() => {
+    liveRef.current = subscribing;
+  }, [subscribing]);
+
+  const updateActivityMode = useCallback((next: ActivityMode) => {
+    setActivityMode(next);
+    saveActivityMode(next);
+    activityRef.current = next;
+  }, []);
+
+  const updateRiskVerdict = useCallback((contract: string, verdict: RiskVerdict | null) => {
+    setRiskOverrides(prev => {
+      const next = setRiskVerdict(prev, contract, verdict);
+      saveRiskOverrides(next);
+      return next;
+    });
+  }, []);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(list => list.filter(t => t.id !== id));
+  }, []);
+
+  // Toasts, browser notifications and the webhook, using the engine's current settings
+  const deliverAlerts = useCallback((alerts: Alert[]) => {
+    const settings = alertEngine.current.settings;
+    setToasts(list => [...list, ...alerts].slice(-MAX_TOASTS));
+    for (const alert of alerts) {
+      setTimeout(() => dismissToast(alert.id), TOAST_TTL_MS);
+      if (settings.browserNotifications) notifyBrowser(alert);
+      if (settings.webhookUrl) postWebhook(settings.webhookUrl, network.id, alert);
     }
-  }, [httpProvider]);
+  }, [dismissToast, network]);
+
+  const fetchTimestamps = useCallback(async (blockNumbers: number[]): Promise<Map<number, number | undefined>> => {
+    if (!lookup) return new Map();
+    return lookup.getBlockTimestamps(blockNumbers);
+  }, [lookup]);
 
   const enrichCollection = useCallback(async (addr: string, type: TokenType) => {
     if (!httpProvider || metaCache.current.has(addr)) return;
@@ -156,154 +378,749 @@ export default function App() {
     metaCache.current.set(addr, {});
 
     try {
-      const c = new ethers.Contract(addr, METADATA_ABI, httpProvider);
-      const promises: Promise<any>[] = [c.name(), c.symbol()];
-      if (type === TokenType.ERC20) {
-        promises.push(c.decimals());
-      }
-      const [nameRes, symbolRes, decimalsRes] = await Promise.allSettled(promises);
-      
-      const meta: ContractMeta = {
-        name: nameRes.status === "fulfilled" ? nameRes.value : undefined,
-        symbol: symbolRes.status === "fulfilled" ? symbolRes.value : undefined,
-        decimals: decimalsRes?.status === "fulfilled" ? Number(decimalsRes.value) : undefined,
-      };
-      
+      // The tracker API already resolved names for the collections it serves
+      const fromApi = liveMode === "api" && apiClient ? await apiClient.collection(addr).catch(() => null) : null;
+      const meta: ContractMeta = fromApi
+        ? { name: fromApi.name, symbol: fromApi.symbol, decimals: fromApi.decimals }
+        : await fetchContractMeta(httpProvider, addr, type);
       metaCache.current.set(addr, meta);
+      store?.putMeta(network.id, addr, meta).catch(console.error);
 
-      setSummaries((prev) => {
-        const cur = prev[addr];
-        if (!cur) return prev;
-        return { ...prev, [addr]: { ...cur, ...meta } };
-      });
+      setSummaries((prev) => applyMeta(prev, addr, meta));
     } catch (e) {
-      // ignore metadata errors
+      // Dropping the placeholder lets the collection's next mint try again
+      console.error("Failed to fetch contract metadata:", addr, e);
+      metaCache.current.delete(addr);
     }
-  }, [httpProvider]);
+  }, [httpProvider, store, network, liveMode, apiClient]);
 
-  const upsertSummary = useCallback((item: MintItem) => {
-    setSummaries((prev) => {
-      const addr = item.contract;
-      const cur = prev[addr] || {
-        address: addr,
-        type: item.type,
-        name: metaCache.current.get(addr)?.name,
-        symbol: metaCache.current.get(addr)?.symbol,
-        decimals: metaCache.current.get(addr)?.decimals,
-        totalMintEvents: 0,
-        uniqueTokens: 0,
-        tokenIds: new Set<string>(),
-      };
-      const tokenIds = new Set(cur.tokenIds);
-      if (item.tokenId) {
-        tokenIds.add(item.tokenId);
-      }
-      const next: CollSummary = {
-        ...cur,
-        tokenIds,
-        uniqueTokens: tokenIds.size,
-        totalMintEvents: cur.totalMintEvents + 1,
-      };
-      return { ...prev, [addr]: next };
-    });
+  // Applies everything queued since the last frame in one render
+  const flushFrame = useCallback(() => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+    frame.current = null;
+    const batch = pendingItems.current;
+    pendingItems.current = [];
+    if (batch.length === 0) return;
+    mintBuffer.current.insertMany(batch.filter(isMint));
+    transferBuffer.current.insertMany(batch.filter(isTransfer));
+    setSummaries((prev) => applyActivity(prev, batch, addr => metaCache.current.get(addr)));
+    setBufferVersion(v => v + 1);
   }, []);
+
+  const queueItems = useCallback((items: ActivityItem[]) => {
+    pendingItems.current.push(...items);
+    // Hidden tabs get no animation frames; don't let the queue grow without bound
+    if (pendingItems.current.length >= MINT_BUFFER_CAP) {
+      flushFrame();
+    } else if (frame.current === null) {
+      frame.current = requestAnimationFrame(flushFrame);
+    }
+  }, [flushFrame]);
   
-  const processNewItems = useCallback(async (newItems: MintItem[]) => {
+  const processNewItems = useCallback(async (items: ActivityItem[]) => {
+      // Scan and live feed overlap during handover, so drop anything already shown
+      const newItems = items.filter(it => !seenKeys.current.has(mintKey(it)));
       if (newItems.length === 0) return;
-      const byBlock = new Map<number, MintItem[]>();
-      for (const it of newItems) {
-        upsertSummary(it);
+      newItems.forEach(it => seenKeys.current.set(mintKey(it), true));
+      const mints = newItems.filter(isMint);
+      for (const it of mints) {
+        trackedContracts.current.add(it.contract.toLowerCase());
         if (!metaCache.current.has(it.contract)) {
           enrichCollection(it.contract, it.type);
         }
-        const arr = byBlock.get(it.blockNumber) || [];
-        arr.push(it);
-        byBlock.set(it.blockNumber, arr);
       }
       
-      for (const [bn, arr] of byBlock) {
-        const ts = await fetchTimestamp(bn);
-        arr.forEach((it) => (it.timestamp = ts));
+      // Mints from the tracker API arrive with timestamps already
+      const untimed = newItems.filter(it => it.timestamp === undefined);
+      if (untimed.length) {
+        try {
+          const timestamps = await fetchTimestamps(untimed.map(it => it.blockNumber));
+          untimed.forEach((it) => (it.timestamp = timestamps.get(it.blockNumber)));
+        } catch (e) {
+          // Unseen again, so the retried chunk gets them through
+          newItems.forEach(it => seenKeys.current.delete(mintKey(it)));
+          throw e;
+        }
       }
       
-      setMints(prev => [...newItems, ...prev].sort((a,b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex));
+      queueItems(newItems);
 
-  }, [upsertSummary, enrichCollection, fetchTimestamp]);
-  
-  const startLive = useCallback(() => {
-    if (!wsProvider || !httpProvider || subscribing) {
-        if (!wsProvider) {
-            setError("WebSocket provider not available. Cannot start live feed.");
+      const alerts = alertEngine.current.evaluate(mints, liveRef.current);
+      if (alerts.length) deliverAlerts(alerts);
+
+      if (store) {
+        store.putMints(network.id, newItems).catch(console.error);
+        if (Date.now() - lastPrune.current > PRUNE_INTERVAL_MS) {
+          lastPrune.current = Date.now();
+          store.prune(network.id, retention).catch(console.error);
         }
-        return;
+      }
+
+  }, [queueItems, enrichCollection, fetchTimestamps, deliverAlerts, store, network, retention]);
+  
+  const handleLogs = useCallback(async (logs: Log[]) => {
+    if (!lookup || logs.length === 0) return;
+    const newItems = await collectMints(logs, lookup, allowedMintContracts, registry);
+    let transfers: TransferItem[] = [];
+    if (activityRef.current === "all") {
+      const minted = new Set(newItems.map(it => it.contract.toLowerCase()));
+      transfers = collectTransfers(logs, addr =>
+        minted.has(addr.toLowerCase()) || trackedContracts.current.has(addr.toLowerCase()) || registry.has(addr));
     }
+    await processNewItems([...newItems, ...transfers]);
+    setRpcSaved(lookup.saved);
+  }, [lookup, allowedMintContracts, registry, processNewItems]);
 
-    setMints([]);
+  useEffect(() => {
+    onRegistryAdd.current = (entry) => {
+      store?.putRegistryEntries(network.id, [entry]).catch(console.error);
+      setRegistrySize(registry.size);
+    };
+  }, [store, network, registry]);
+
+  // While a catch-up is on offer the blocks after the restored checkpoint are missing,
+  // so the saved checkpoint stays put until the user takes or dismisses it
+  const saveCheckpoint = useCallback((blockNumber: number) => {
+    if (resumeOffer.current !== null) return;
+    store?.setCheckpoint(network.id, blockNumber).catch(console.error);
+  }, [store, network]);
+
+  const offerResume = useCallback((blockNumber: number | null) => {
+    resumeOffer.current = blockNumber;
+    setResumeFrom(blockNumber);
+  }, []);
+
+  const markProcessed = useCallback((blockNumber: number) => {
+    if (lastProcessedBlock.current === null || blockNumber > lastProcessedBlock.current) {
+      lastProcessedBlock.current = blockNumber;
+      saveCheckpoint(blockNumber);
+    }
+  }, [saveCheckpoint]);
+
+  const resetData = useCallback(() => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+    frame.current = null;
+    pendingItems.current = [];
+    mintBuffer.current.clear();
+    transferBuffer.current.clear();
+    setBufferVersion(v => v + 1);
     setSummaries({});
     metaCache.current.clear();
+    seenKeys.current.clear();
+    trackedContracts.current.clear();
+    lastProcessedBlock.current = null;
+    reorgTracker.current.clear();
+    alertEngine.current.reset();
+  }, []);
+
+  // Drops everything from `fromBlock` on, e.g. blocks orphaned by a reorg
+  const retractFrom = useCallback((fromBlock: number) => {
+    flushFrame();
+    store?.deleteMintsFrom(network.id, fromBlock).catch(console.error);
+    const removed: ActivityItem[] = [
+      ...mintBuffer.current.removeWhere(it => it.blockNumber >= fromBlock),
+      ...transferBuffer.current.removeWhere(it => it.blockNumber >= fromBlock),
+    ];
+    if (removed.length === 0) return;
+    removed.forEach(it => seenKeys.current.delete(mintKey(it)));
+    const remaining = mintBuffer.current.toArray();
+    setSummaries(prev => retractActivity(prev, removed, remaining));
+    setBufferVersion(v => v + 1);
+  }, [store, network, flushFrame]);
+
+  // Blocks from `fork` on were orphaned: drop their mints and move the saved checkpoint back too
+  const undoReorg = useCallback((fork: number | null) => {
+    if (fork === null) return;
+    console.warn(`Reorg detected at block ${fork}, retracting mints`);
+    retractFrom(fork);
+    if (lastProcessedBlock.current !== null && lastProcessedBlock.current >= fork) {
+      lastProcessedBlock.current = fork - 1;
+      saveCheckpoint(fork - 1);
+    }
+  }, [retractFrom, saveCheckpoint]);
+
+  const flushPendingLogs = useCallback(async () => {
+    flushTimer.current = null;
+    const batch = pendingLogs.current;
+    pendingLogs.current = [];
+    try {
+        // Pushed logs cover no known range, so only a changed hash reveals a reorg
+        undoReorg(await reorgTracker.current.reconcile(batch, 1, 0));
+        await handleLogs(batch);
+        batch.forEach(log => markProcessed(log.blockNumber));
+    } catch (e) {
+        // Keep the batch ahead of newer logs so the checkpoint cannot pass it
+        console.error("Error processing live logs, retrying:", e);
+        pendingLogs.current = [...batch, ...pendingLogs.current];
+        if (!flushTimer.current) {
+            flushTimer.current = setTimeout(flushPendingLogs, LIVE_RETRY_DELAY_MS);
+        }
+    }
+  }, [handleLogs, markProcessed, undoReorg]);
+
+  // Restore this network's history from IndexedDB
+  useEffect(() => {
+    if (store === undefined) return;
+    setRestoring(true);
+    offerResume(null);
+    setRegistrySize(registry.size);
+    if (store === null) {
+      setRestoring(false);
+      return;
+    }
+    let alive = true;
+    (async () => {
+      try {
+        await store.prune(network.id, retention);
+        const [items, meta, checkpoint, known] = await Promise.all([
+          store.loadMints(network.id),
+          store.loadMeta(network.id),
+          store.getCheckpoint(network.id),
+          store.loadRegistry(network.id),
+        ]);
+        if (!alive) return;
+        registry.load(known);
+        setRegistrySize(registry.size);
+        meta.forEach((m, addr) => metaCache.current.set(addr, m));
+        items.forEach(it => seenKeys.current.set(mintKey(it), true));
+        const mints = items.filter(isMint);
+        mints.forEach(it => trackedContracts.current.add(it.contract.toLowerCase()));
+        mintBuffer.current.clear();
+        mintBuffer.current.insertMany(mints);
+        transferBuffer.current.clear();
+        transferBuffer.current.insertMany(items.filter(isTransfer));
+        alertEngine.current.seed(mints);
+        setBufferVersion(v => v + 1);
+        setSummaries(buildSummaries(items, addr => metaCache.current.get(addr)));
+        lastProcessedBlock.current = checkpoint;
+        offerResume(checkpoint);
+      } catch (e) {
+        console.error("Failed to restore history:", e);
+      } finally {
+        if (alive) setRestoring(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+    // retention only matters for the initial prune; changing it must not reload
+  }, [store, network, registry, reloadToken, offerResume]);
+
+  // Collections created before the tracked history: the factories' past creation events,
+  // from their deploy blocks up to the head, resumed from where the last session stopped
+  useEffect(() => {
+    if (!httpProvider || !chainOk || restoring || importedFrom || store === undefined || !registry.canBackfill) return;
+    let alive = true;
+    (async () => {
+      try {
+        const done = await store?.getRegistryCheckpoint(network.id) ?? null;
+        const head = Number(await httpProvider.getBlockNumber());
+        await registry.backfill(httpProvider, done === null ? 0 : done + 1, head, {
+          initialChunk: SCAN_MAX_CHUNK,
+          maxChunk: REGISTRY_BACKFILL_MAX_CHUNK,
+          isCancelled: () => !alive,
+          attempts: SCAN_CHUNK_ATTEMPTS,
+          retryDelayMs: SCAN_RETRY_DELAY_MS,
+          onProgress: (block) => store?.setRegistryCheckpoint(network.id, block),
+        });
+      } catch (e) {
+        console.error("Factory backfill failed:", e);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [httpProvider, chainOk, restoring, importedFrom, store, network, registry, reloadToken]);
+
+  // Mints from a `tracker-cli serve` instance instead of the RPC: SSE for new
+  // mints, and a REST backfill from the last processed block on every (re)connect
+  const startApiFeed = useCallback(async (api: TrackerApiClient) => {
+    try {
+      const status = await api.status();
+      if (status.chainId !== network.chainId) {
+        throw new Error(`it tracks chain ${status.chainId}, expected ${network.chainId}`);
+      }
+    } catch (e: any) {
+      console.error("Tracker API unavailable:", e);
+      setError(`Tracker API at ${api.baseUrl} is not usable: ${e?.message ?? e}`);
+      setSubscribing(false);
+      return;
+    }
+
+    const ingest = async (items: MintItem[]) => {
+      await processNewItems(items);
+      const last = items.reduce((max, it) => Math.max(max, it.blockNumber), -1);
+      if (last >= 0) markProcessed(last);
+    };
+    const backfill = async () => {
+      try {
+        for await (const page of api.mintsSince(lastProcessedBlock.current ?? 0)) await ingest(page);
+      } catch (e) {
+        console.error("Tracker API backfill failed:", e);
+      }
+    };
+
+    setApiState("connecting");
+    closeApiFeed.current = api.stream({
+      onMints: (items) => { ingest(items).catch(console.error); },
+      onReorg: (fromBlock) => undoReorg(fromBlock),
+      onOpen: () => {
+        setApiState("connected");
+        backfill();
+      },
+      onError: () => setApiState("reconnecting"),
+    });
+  }, [network, processNewItems, markProcessed, undoReorg]);
+
+  const startLive = useCallback(() => {
+    if (subscribing || restoring || importedFrom) return;
+    if (liveMode === "api") {
+        if (!apiClient) return;
+        setError(null);
+        setSubscribing(true);
+        startApiFeed(apiClient);
+        return;
+    }
+    if (!httpProvider || !chainOk) return;
+    if (liveMode === "ws" && !wsManager) {
+        setError("WebSocket provider not available. Cannot start live feed.");
+        return;
+    }
+
+    // Gap fill after a reconnect starts here if nothing has been processed yet. Behind a
+    // restored checkpoint still on offer, live starts here too instead of polling the gap
+    if (latestBlock !== null && (lastProcessedBlock.current === null || resumeOffer.current !== null)) {
+        lastProcessedBlock.current = Math.max(lastProcessedBlock.current ?? latestBlock, latestBlock);
+    }
     setError(null);
     setSubscribing(true);
 
-    const listener = async (log: Log) => {
-        try {
-            const tx = await httpProvider.getTransaction(log.transactionHash);
-            if (tx && tx.to && allowedMintContracts.has(tx.to.toLowerCase())) {
-                const newItems = processLog(log);
-                if (newItems.length > 0) {
-                    await processNewItems(newItems);
-                }
-            }
-        } catch (e) {
-            console.error("Error processing live log:", e);
+    // Collect logs briefly so a busy block resolves in one batched lookup
+    const listener = (log: Log) => {
+        pendingLogs.current.push(log);
+        if (!flushTimer.current) {
+            flushTimer.current = setTimeout(flushPendingLogs, LIVE_BATCH_DELAY_MS);
         }
     };
 
-    wsProvider.on(logFilter, listener);
+    if (liveMode !== "http" && wsManager) {
+        wsManager.subscribe(logFilter, listener);
+    }
+
+  }, [wsManager, httpProvider, subscribing, chainOk, restoring, importedFrom, liveMode, apiClient, startApiFeed, latestBlock, logFilter, flushPendingLogs]);
 
-  }, [wsProvider, httpProvider, subscribing, logFilter, allowedMintContracts, processLog, processNewItems]);
+  const fetchRange = useCallback(async (
+    from: number,
+    to: number,
+    opts: { onProgress?: (done: number) => void; isCancelled?: () => boolean } = {}
+  ): Promise<boolean> => {
+    if (!httpProvider) return false;
+    // A chunk whose lookups fail throws here and is retried before the checkpoint moves
+    return scanLogs(httpProvider, logFilter, from, to, async (logs, end, start) => {
+      undoReorg(await reorgTracker.current.reconcile(logs, start, end, async (n) => (await httpProvider.getBlock(n))?.hash ?? null));
+      await handleLogs(logs);
+      markProcessed(end);
+      opts.onProgress?.(end - from + 1);
+    }, {
+      initialChunk: SCAN_INITIAL_CHUNK,
+      maxChunk: SCAN_MAX_CHUNK,
+      isCancelled: opts.isCancelled,
+      attempts: SCAN_CHUNK_ATTEMPTS,
+      retryDelayMs: SCAN_RETRY_DELAY_MS,
+    });
+  }, [httpProvider, logFilter, handleLogs, markProcessed, undoReorg]);
 
-  const stopLive = useCallback(() => {
-    if (!wsProvider) return;
-    wsProvider.removeAllListeners();
-    setSubscribing(false);
-  }, [wsProvider]);
-  
-  const summaryList = useMemo(() => Object.values(summaries).sort((a, b) => b.totalMintEvents - a.totalMintEvents), [summaries]);
+  const scanBlocks = useCallback(async (from: number, to: number): Promise<boolean> => {
+    const total = to - from + 1;
+    setScanProgress({ done: 0, total });
+    return fetchRange(from, to, {
+      onProgress: (done) => setScanProgress({ done, total }),
+      isCancelled: () => scanCancelled.current,
+    });
+  }, [fetchRange]);
 
-  const formatAmount = (amountStr?: string, decimals?: number) => {
-    if (!amountStr) return 'N/A';
+  // Re-reads everything from the last processed block to the head over HTTP.
+  // The last block is fetched again on purpose: it may have been only partly delivered.
+  const backfillToHead = useCallback(async () => {
+    if (!httpProvider || catchingUp.current || lastProcessedBlock.current === null) return;
+    catchingUp.current = true;
     try {
-      return ethers.formatUnits(amountStr, decimals ?? 18);
-    } catch {
-      return amountStr;
+      const head = Number(await httpProvider.getBlockNumber());
+      if (head >= lastProcessedBlock.current) {
+        await fetchRange(lastProcessedBlock.current, head);
+      }
+    } catch (e) {
+      console.error("Backfill failed:", e);
+    } finally {
+      catchingUp.current = false;
     }
-  };
+  }, [httpProvider, fetchRange]);
 
-  const fmtTime = (ts?: number) => {
-    if (!ts) return "-";
-    return new Date(ts * 1000).toLocaleString();
-  };
+  // One polling step: fetch every block up to `head`, undoing any reorg in the recent tail
+  const pollToHead = useCallback(async (head: number) => {
+    if (!httpProvider || catchingUp.current) return;
+    catchingUp.current = true;
+    try {
+      const last = lastProcessedBlock.current ?? head - 1;
+      if (last >= head) return;
+      // The recent tail is read again so fetchRange can check its block hashes
+      await fetchRange(Math.max(0, last - REORG_CHECK_DEPTH + 1), head);
+    } catch (e) {
+      console.error("Polling failed:", e);
+    } finally {
+      catchingUp.current = false;
+    }
+  }, [httpProvider, fetchRange]);
 
-  const getTypePill = (type: TokenType) => {
-    const colors: Record<TokenType, string> = {
-      [TokenType.ERC20]: "bg-blue-500/20 text-blue-300",
-      [TokenType.ERC721]: "bg-purple-500/20 text-purple-300",
-      [TokenType.ERC1155]: "bg-teal-500/20 text-teal-300",
+  useEffect(() => {
+    onReconnect.current = () => {
+      if (subscribing && (liveMode === "auto" || liveMode === "ws")) backfillToHead();
     };
-    return (
-        <span className={`px-2 py-1 text-xs font-medium rounded-full ${colors[type]}`}>
-            {type}
-        </span>
-    );
-  };
+  }, [subscribing, liveMode, backfillToHead]);
+
+  // HTTP polling follows the latest-block loop: always in "http" mode, and in
+  // "auto" mode while there is no usable socket
+  const polling = subscribing && (
+    liveMode === "http" || (liveMode === "auto" && (!wsManager || connState === "degraded"))
+  );
+
+  useEffect(() => {
+    if (!polling || latestBlock === null) return;
+    pollToHead(latestBlock);
+  }, [polling, latestBlock, pollToHead]);
+
+  // Scans [from, to] on top of what is already loaded, then optionally hands over to live
+  const runScan = useCallback(async (from: number, to: number) => {
+    if (!httpProvider || scanning || subscribing || !chainOk || restoring || importedFrom) return;
+
+    setError(null);
+    setScanning(true);
+    scanCancelled.current = false;
+
+    try {
+      const completed = await scanBlocks(from, to);
+      if (completed && followLive) {
+        // Subscribe first, then fill whatever was produced since `to`; overlaps are deduped.
+        // Polling stays out until the handover is done rather than fetching the same blocks
+        catchingUp.current = true;
+        try {
+          startLive();
+          const head = Number(await httpProvider.getBlockNumber());
+          if (head > to) await scanBlocks(to + 1, head);
+        } finally {
+          catchingUp.current = false;
+        }
+      }
+    } catch (e: any) {
+      console.error("Scan failed:", e);
+      setError(`Scan failed: ${e?.shortMessage ?? e?.message ?? e}`);
+    } finally {
+      setScanning(false);
+      setScanProgress(null);
+    }
+  }, [httpProvider, scanning, subscribing, chainOk, restoring, importedFrom, followLive, scanBlocks, startLive]);
+
+  const startScan = useCallback(() => {
+    if (latestBlock === null) return;
+    const to = scanTo.trim() === "" ? latestBlock : Number(scanTo);
+    const from = scanFrom.trim() === "" ? Math.max(0, to - DEFAULT_SCAN_BLOCKS + 1) : Number(scanFrom);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || from > to) {
+      setError("Invalid block range.");
+      return;
+    }
+    runScan(from, to);
+  }, [latestBlock, scanFrom, scanTo, runScan]);
+
+  const catchUp = useCallback(() => {
+    if (resumeFrom === null || latestBlock === null) return;
+    offerResume(null);
+    // Read on from the restored checkpoint, so the saved one follows the scan up
+    lastProcessedBlock.current = resumeFrom;
+    runScan(resumeFrom + 1, latestBlock);
+  }, [resumeFrom, latestBlock, runScan, offerResume]);
+
+  // Declining the catch-up gives up on the gap: live goes on from the head and the saved
+  // checkpoint may move past the gap again
+  const dismissResume = useCallback(() => {
+    offerResume(null);
+    if (latestBlock !== null && (lastProcessedBlock.current ?? -1) < latestBlock) {
+      lastProcessedBlock.current = latestBlock;
+    }
+    if (lastProcessedBlock.current !== null) saveCheckpoint(lastProcessedBlock.current);
+  }, [latestBlock, offerResume, saveCheckpoint]);
+
+  const clearData = useCallback(() => {
+    if (!window.confirm(`Delete all stored mint history for ${network.name}?`)) return;
+    resetData();
+    offerResume(null);
+    store?.clear(network.id).catch(console.error);
+  }, [network, store, resetData, offerResume]);
+
+  const updateRetention = useCallback((next: RetentionSettings) => {
+    setRetention(next);
+    saveRetention(next);
+    store?.prune(network.id, next).catch(console.error);
+  }, [store, network]);
+
+  const cancelScan = useCallback(() => {
+    scanCancelled.current = true;
+  }, []);
+
+  const stopLive = useCallback(() => {
+    wsManager?.unsubscribeAll();
+    closeApiFeed.current?.();
+    closeApiFeed.current = null;
+    setApiState("closed");
+    if (flushTimer.current) {
+        clearTimeout(flushTimer.current);
+        flushTimer.current = null;
+    }
+    pendingLogs.current = [];
+    setSubscribing(false);
+  }, [wsManager]);
+
+  const selectNetwork = useCallback((id: string) => {
+    if (id === network.id) return;
+    stopLive();
+    scanCancelled.current = true;
+    walletScanCancelled.current = true;
+    resetData();
+    setError(null);
+    saveSelectedNetworkId(id);
+    const next = getNetwork(id);
+    const nextRpc = loadRpcSettings(id);
+    setLiveMode(networkEndpoints(next, nextRpc).ws.length ? "auto" : "http");
+    setRpcSettings(nextRpc);
+    setImportedFrom(null);
+    setMintDetail(null);
+    setCollection(null);
+    setNetwork(next);
+  }, [network, stopLive, resetData]);
+
+  // New endpoints or limits rebuild the providers, so anything running on the old ones stops
+  const updateRpcSettings = useCallback((next: RpcSettings) => {
+    stopLive();
+    scanCancelled.current = true;
+    walletScanCancelled.current = true;
+    saveRpcSettings(network.id, next);
+    setLiveMode(mode => (mode === "api" ? mode : networkEndpoints(network, next).ws.length ? "auto" : "http"));
+    setRpcSettings(next);
+  }, [network, stopLive]);
+
+  // Imported files replace the view for offline analysis; nothing is written to IndexedDB
+  const importFile = useCallback(async (file: File) => {
+    const format = detectFormat(file.name);
+    if (!format) {
+      setError("Unsupported file type. Use .csv, .json or .ndjson.");
+      return;
+    }
+    try {
+      const session = parseSession(await file.text(), format);
+      stopLive();
+      scanCancelled.current = true;
+      resetData();
+      offerResume(null);
+      session.meta.forEach((m, addr) => metaCache.current.set(addr, m));
+      const items = [...session.mints, ...session.transfers].filter(it => {
+        const key = mintKey(it);
+        if (seenKeys.current.has(key)) return false;
+        seenKeys.current.set(key, true);
+        return true;
+      });
+      mintBuffer.current.insertMany(items.filter(isMint));
+      transferBuffer.current.insertMany(items.filter(isTransfer));
+      setBufferVersion(v => v + 1);
+      setSummaries(buildSummaries(items, addr => metaCache.current.get(addr)));
+      setImportedFrom(file.name);
+      setError(null);
+    } catch (e: any) {
+      console.error("Import failed:", e);
+      setError(`Import failed: ${e?.message ?? e}`);
+    }
+  }, [stopLive, resetData, offerResume]);
+
+  const closeImport = useCallback(() => {
+    resetData();
+    setImportedFrom(null);
+    setReloadToken(t => t + 1);
+  }, [resetData]);
   
-  const handleRowClick = (item: MintItem) => {
-    if (item.type === TokenType.ERC721 || item.type === TokenType.ERC1155) {
-        const url = `https://${item.contract.toLowerCase()}_${CHAIN_ID}.nfts2.me/?widget=classic&hideBanner=true`;
-        window.open(url, '_blank', 'noopener,noreferrer');
+  // Re-scored at most once per RISK_RESCORE_MS, after the last of a run of flushes too;
+  // `summaries` is a dependency so "no name" lands with the metadata
+  const [riskReport, setRiskReport] = useState<RiskReport>({ collections: new Map(), mints: new Map() });
+  const riskTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastRiskScore = useRef(0);
+  useEffect(() => {
+    if (riskTimer.current) return; // the pending pass will see this change
+    riskTimer.current = setTimeout(() => {
+      riskTimer.current = null;
+      lastRiskScore.current = Date.now();
+      setRiskReport(assessRisk(mintBuffer.current.toArray(), (addr) => metaCache.current.get(addr)));
+    }, Math.max(0, lastRiskScore.current + RISK_RESCORE_MS - Date.now()));
+  }, [bufferVersion, summaries]);
+  useEffect(() => () => {
+    if (riskTimer.current) clearTimeout(riskTimer.current);
+    riskTimer.current = null;
+  }, []);
+  const flagged = useCallback(
+    (contract: string) => isFlagged(riskReport, riskOverrides, contract),
+    [riskReport, riskOverrides]
+  );
+
+  const summaryList = useMemo(
+    () => sortSummaries(filterSummaries(Object.values(summaries) as CollSummary[], filters, flagged), summarySort),
+    [summaries, filters, summarySort, flagged]
+  );
+
+  // Newest-first with no filter reads straight from the buffer; anything else
+  // materializes a filtered/sorted copy. `summaries` is a dependency so rows
+  // re-sort when contract names arrive.
+  const mintView = useMemo(() => {
+    const buffer = mintBuffer.current;
+    const defaultView = !isFiltered(filters) && mintSort.key === DEFAULT_MINT_SORT.key && mintSort.dir === DEFAULT_MINT_SORT.dir;
+    if (defaultView && activityMode === "mints") {
+      return { count: buffer.size, at: (i: number): ActivityItem => buffer.at(i), toArray: (): ActivityItem[] => buffer.toArray() };
     }
+    const all: ActivityItem[] = activityMode === "all"
+      ? mergeNewestFirst<ActivityItem>(buffer.toArray(), transferBuffer.current.toArray())
+      : buffer.toArray();
+    const metaFor = (addr: string) => metaCache.current.get(addr);
+    const rows = defaultView ? all : sortMints(filterMints(all, filters, metaFor, flagged), mintSort, metaFor);
+    return { count: rows.length, at: (i: number) => rows[i], toArray: () => rows };
+  }, [bufferVersion, summaries, filters, mintSort, activityMode, flagged]);
+
+  const exportSummaries = useCallback((format: ExportFormat) => {
+    const rows = summaryList.map(summaryToRecord);
+    downloadText(`collections-${network.id}.${format}`, serialize(rows, COLLECTION_COLUMNS, format), EXPORT_MIME[format]);
+  }, [summaryList, network]);
+
+  const exportMints = useCallback((format: ExportFormat) => {
+    const rows = mintView.toArray().map(it => mintToRecord(it, metaCache.current.get(it.contract)));
+    downloadText(`mints-${network.id}.${format}`, serialize(rows, MINT_COLUMNS, format), EXPORT_MIME[format]);
+  }, [mintView, network]);
+
+  const toggleContractFilter = (address: string) => {
+    setFilters(f => ({ ...f, contract: f.contract === address ? "" : address }));
   };
 
+  // Collection page charts are recomputed from the buffer whenever a frame flushes
+  const collectionItems = useMemo(
+    () => (collection ? mintBuffer.current.toArray().filter(it => it.contract === collection) : []),
+    [bufferVersion, collection]
+  );
+
+  const showCollectionMints = useCallback(() => {
+    if (!collection) return;
+    setFilters(f => ({ ...f, contract: collection }));
+    setCollection(null);
+  }, [collection]);
+
+  const watchCount = alertSettings.watchedContracts.length + alertSettings.watchedWallets.length;
+  const collectionWatched = !!collection && alertSettings.watchedContracts.some(a => a.toLowerCase() === collection.toLowerCase());
+
+  const toggleCollectionWatch = useCallback(() => {
+    if (!collection) return;
+    const rest = alertSettings.watchedContracts.filter(a => a.toLowerCase() !== collection.toLowerCase());
+    const watchedContracts = rest.length === alertSettings.watchedContracts.length ? [...rest, collection] : rest;
+    updateAlertSettings({ ...alertSettings, watchedContracts });
+  }, [collection, alertSettings, updateAlertSettings]);
+
+  const metaFor = useCallback((address: string) => metaCache.current.get(address), []);
+  const registryFor = useCallback((address: string) => registry.get(address), [registry]);
+  const closeMintDetail = useCallback(() => setMintDetail(null), []);
+
+  const updateWallet = useCallback((address: string | null, connected: boolean) => {
+    setWallet(address);
+    saveWalletAddress(address);
+    setWalletConnected(!!address && connected);
+    setHoldings({ status: "idle" });
+  }, []);
+
+  const connectInjectedWallet = useCallback(async () => {
+    if (!injectedWallet) return;
+    try {
+      updateWallet(await connectWallet(injectedWallet), true);
+      setWalletChainId(await getWalletChainId(injectedWallet));
+    } catch (e: any) {
+      console.error("Wallet connection failed:", e);
+      setError(`Wallet connection failed: ${e?.message ?? e}`);
+    }
+  }, [injectedWallet, updateWallet]);
+
+  const switchChain = useCallback(() => {
+    if (!injectedWallet) return;
+    switchWalletChain(injectedWallet, network).catch((e: any) => {
+      console.error("Network switch failed:", e);
+      setError(`Could not switch the wallet to ${network.name}: ${e?.message ?? e}`);
+    });
+  }, [injectedWallet, network]);
+
+  // Follow the connected wallet's account and chain
+  useEffect(() => {
+    if (!injectedWallet || !walletConnected) return;
+    return watchWallet(injectedWallet, {
+      onAccounts: (accounts) => updateWallet(accounts[0] ?? null, true),
+      onChain: setWalletChainId,
+    });
+  }, [injectedWallet, walletConnected, updateWallet]);
+
+  // Mints to the wallet only: topic-filtered getLogs, then the usual NFTS2ME checks.
+  // The checkpoint is left alone since other mints in the range were not fetched.
+  const backfillWallet = useCallback(async (from: number, to: number) => {
+    if (!httpProvider || !wallet || importedFrom) return;
+    walletScanCancelled.current = false;
+    const filters = walletMintFilters(wallet);
+    const range = to - from + 1;
+    setWalletScan({ done: 0, total: range * filters.length });
+    try {
+      for (const [pass, filter] of filters.entries()) {
+        const completed = await scanLogs(httpProvider, filter, from, to, async (logs, end) => {
+          await handleLogs(logs);
+          setWalletScan({ done: pass * range + end - from + 1, total: range * filters.length });
+        }, {
+          initialChunk: SCAN_MAX_CHUNK,
+          maxChunk: WALLET_SCAN_MAX_CHUNK,
+          isCancelled: () => walletScanCancelled.current,
+          attempts: SCAN_CHUNK_ATTEMPTS,
+          retryDelayMs: SCAN_RETRY_DELAY_MS,
+        });
+        if (!completed) break;
+      }
+    } catch (e: any) {
+      console.error("Wallet backfill failed:", e);
+      setError(`Wallet backfill failed: ${e?.shortMessage ?? e?.message ?? e}`);
+    } finally {
+      setWalletScan(null);
+      flushFrame();
+      setHoldingsToken(t => t + 1);
+    }
+  }, [httpProvider, wallet, importedFrom, handleLogs, flushFrame]);
+
+  // Holdings are re-checked on chain when the page opens, the wallet changes, or on request.
+  // `summaries` is read but not a dependency: re-checking on every new mint would flood the RPC.
+  useEffect(() => {
+    if (!showMyMints || !wallet || !httpProvider) return;
+    let alive = true;
+    setHoldings({ status: "loading" });
+    verifyHoldings(httpProvider, wallet, holdingCandidates(Object.values(summaries), wallet))
+      .then(list => alive && setHoldings({ status: "ready", list }))
+      .catch((e: any) => alive && setHoldings({ status: "failed", message: `Balance check failed: ${e?.message ?? e}` }));
+    return () => {
+      alive = false;
+    };
+  }, [showMyMints, wallet, httpProvider, holdingsToken]);
+
+  const walletItems = useMemo(
+    () => (wallet ? mintBuffer.current.toArray().filter(it => it.to.toLowerCase() === wallet.toLowerCase()) : []),
+    [bufferVersion, wallet]
+  );
+
+  const showWalletMints = useCallback(() => {
+    if (!wallet) return;
+    setFilters(f => ({ ...f, recipient: wallet }));
+    setShowMyMints(false);
+  }, [wallet]);
+
   return (
     <div className="min-h-screen p-4 sm:p-6 lg:p-8 font-sans">
       <div className="max-w-7xl mx-auto space-y-8">
@@ -312,17 +1129,73 @@ export default function App() {
                 <img src="https://app.nfts2me.com/assets/images/logo.svg" alt="NFTS2Me Logo" className="h-8 w-8 sm:h-10 sm:w-10 mr-3" />
                 <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-white">NFTS2Me Mint Tracker</h1>
             </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => { setShowMyMints(v => !v); setCollection(null); }}
+                className={`px-3 py-2 rounded-lg border text-sm ${showMyMints ? "bg-amber-600 border-amber-500 text-white" : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"}`}
+              >
+                My mints{wallet ? ` (${shortenAddress(wallet)})` : ""}
+              </button>
+              <button
+                onClick={() => setShowAlerts(v => !v)}
+                className={`px-3 py-2 rounded-lg border text-sm ${showAlerts ? "bg-amber-600 border-amber-500 text-white" : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"}`}
+              >
+                Alerts{watchCount > 0 ? ` (${watchCount})` : ""}
+              </button>
+              <button
+                onClick={() => setShowDiagnostics(v => !v)}
+                className={`px-3 py-2 rounded-lg border text-sm ${showDiagnostics ? "bg-amber-600 border-amber-500 text-white" : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"}`}
+              >
+                RPC
+              </button>
+              <select
+                value={network.id}
+                onChange={(e) => selectNetwork(e.target.value)}
+                disabled={scanning}
+                className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-sm text-white disabled:opacity-50"
+              >
+                {NETWORKS.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+              </select>
+            </div>
         </header>
 
+        {showAlerts && <AlertsPanel settings={alertSettings} onChange={updateAlertSettings} />}
+        {showDiagnostics && (
+            <DiagnosticsPanel
+                network={network}
+                pool={httpProvider?.pool ?? null}
+                wsUrl={wsManager?.url ?? null}
+                wsState={connState}
+                settings={rpcSettings}
+                onChange={updateRpcSettings}
+            />
+        )}
+
         <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-4 shadow-lg">
           <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
             <div className="flex items-center gap-2">
                 <span className="text-sm font-medium text-gray-400">Latest Block:</span>
                 <span className="font-mono text-emerald-400">{latestBlock ?? "..."}</span>
+                <ConnectionBadge state={liveMode === "api" ? apiState : connState} attempt={liveMode === "api" ? 0 : reconnectAttempt} polling={polling} />
+                <span className="text-sm font-medium text-gray-400 ml-4" title="JSON-RPC calls avoided by filtering, batching and caching">RPC calls saved:</span>
+                <span className="font-mono text-sky-400">{rpcSaved}</span>
+                <span className="text-sm font-medium text-gray-400 ml-4" title="NFTS2ME collections found through factory events or bytecode fingerprints">Known collections:</span>
+                <span className="font-mono text-teal-400">{registrySize}</span>
             </div>
             <div className="flex gap-2">
+                <select
+                  value={liveMode}
+                  onChange={(e) => setLiveMode(e.target.value as LiveMode)}
+                  disabled={subscribing}
+                  className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-sm text-white disabled:opacity-50"
+                >
+                  <option value="auto">Auto</option>
+                  <option value="ws" disabled={!wsManager}>WebSocket</option>
+                  <option value="http">HTTP polling</option>
+                  <option value="api" disabled={!apiClient}>Tracker API</option>
+                </select>
                 {!subscribing ? (
-                    <button onClick={startLive} disabled={!wsProvider} className="px-6 py-2 rounded-lg bg-amber-600 text-white font-semibold shadow-md hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                    <button onClick={startLive} disabled={(liveMode !== "api" && (!httpProvider || !chainOk)) || restoring || !!importedFrom || scanning || (liveMode === "ws" && !wsManager)} className="px-6 py-2 rounded-lg bg-amber-600 text-white font-semibold shadow-md hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
                       Live
                     </button>
                 ) : (
@@ -336,87 +1209,318 @@ export default function App() {
                 )}
             </div>
           </div>
+          <div className="mt-4 pt-4 border-t border-gray-700 flex flex-col sm:flex-row items-center gap-3">
+            <span className="text-sm font-medium text-gray-400">Scan range:</span>
+            <input
+              type="number"
+              min={0}
+              value={scanFrom}
+              onChange={(e) => setScanFrom(e.target.value)}
+              placeholder={latestBlock !== null ? String(Math.max(0, latestBlock - DEFAULT_SCAN_BLOCKS + 1)) : "From block"}
+              disabled={scanning}
+              className="w-36 px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 font-mono text-sm text-white disabled:opacity-50"
+            />
+            <span className="text-gray-500">→</span>
+            <input
+              type="number"
+              min={0}
+              value={scanTo}
+              onChange={(e) => setScanTo(e.target.value)}
+              placeholder={latestBlock !== null ? String(latestBlock) : "To block"}
+              disabled={scanning}
+              className="w-36 px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 font-mono text-sm text-white disabled:opacity-50"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input type="checkbox" checked={followLive} onChange={(e) => setFollowLive(e.target.checked)} disabled={scanning} />
+              Continue live
+            </label>
+            {!scanning ? (
+                <button onClick={startScan} disabled={!httpProvider || !chainOk || restoring || !!importedFrom || subscribing || latestBlock === null} className="px-4 py-2 rounded-lg bg-gray-700 text-white font-semibold shadow-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                  Scan
+                </button>
+            ) : (
+                <button onClick={cancelScan} className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold shadow-md hover:bg-red-500 transition-all flex items-center gap-2">
+                  <SpinnerIcon className="h-4 w-4" />
+                  Cancel
+                </button>
+            )}
+          </div>
+          {scanProgress && (
+            <div className="mt-3">
+              <div className="h-2 rounded-full bg-gray-900 overflow-hidden">
+                <div className="h-full bg-amber-500 transition-all" style={{ width: `${scanProgress.total ? (scanProgress.done / scanProgress.total) * 100 : 100}%` }} />
+              </div>
+              <div className="mt-1 text-xs text-gray-500 font-mono">{scanProgress.done} / {scanProgress.total} blocks (~{fmtDuration(scanProgress.total * network.blockTimeMs)})</div>
+            </div>
+          )}
+          {resumeFrom !== null && latestBlock !== null && latestBlock > resumeFrom && !subscribing && !scanning && (
+            <div className="mt-4 p-3 rounded-lg bg-amber-900/30 border border-amber-700 text-amber-200 text-sm flex flex-col sm:flex-row items-center justify-between gap-3">
+              <span>Restored history up to block <span className="font-mono">{resumeFrom}</span>, {latestBlock - resumeFrom} blocks behind the chain head.</span>
+              <div className="flex gap-2">
+                <button onClick={catchUp} className="px-4 py-1.5 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-500 transition-all">Catch up</button>
+                <button onClick={dismissResume} className="px-4 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">Dismiss</button>
+              </div>
+            </div>
+          )}
+          <div className="mt-4 pt-4 border-t border-gray-700 flex flex-col sm:flex-row items-center gap-3 text-sm">
+            <span className="font-medium text-gray-400">History:</span>
+            <span className="text-gray-500">{store ? "saved in this browser" : store === null ? "not available" : "..."}</span>
+            <label className="flex items-center gap-2 text-gray-400">
+              Max rows
+              <input
+                type="number"
+                min={0}
+                value={retention.maxRows}
+                onChange={(e) => updateRetention({ ...retention, maxRows: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-28 px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-400">
+              Max age (days)
+              <input
+                type="number"
+                min={0}
+                value={retention.maxAgeDays}
+                onChange={(e) => updateRetention({ ...retention, maxAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-20 px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white"
+              />
+            </label>
+            <span className="text-xs text-gray-500">0 = unlimited</span>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".csv,.json,.ndjson,.jsonl"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = "";
+              }}
+            />
+            <button onClick={() => importInput.current?.click()} disabled={scanning} className="sm:ml-auto px-4 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+              Import
+            </button>
+            <button onClick={clearData} disabled={subscribing || scanning || !!importedFrom} className=" px-4 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+              Clear data
+            </button>
+          </div>
+          <div className="mt-3 flex flex-col sm:flex-row items-center gap-3 text-sm">
+            <span className="font-medium text-gray-400">Gateways:</span>
+            <label className="flex items-center gap-2 text-gray-400">
+              IPFS
+              <input
+                value={gateways.ipfs}
+                onChange={(e) => updateGateways({ ...gateways, ipfs: e.target.value })}
+                className="w-64 px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-400">
+              Arweave
+              <input
+                value={gateways.arweave}
+                onChange={(e) => updateGateways({ ...gateways, arweave: e.target.value })}
+                className="w-56 px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white"
+              />
+            </label>
+          </div>
+          <div className="mt-3 flex flex-col sm:flex-row items-center gap-3 text-sm">
+            <span className="font-medium text-gray-400">Tracker API:</span>
+            <input
+              value={apiUrl}
+              onChange={(e) => updateApiUrl(e.target.value)}
+              disabled={subscribing}
+              placeholder="http://127.0.0.1:8787"
+              className="w-64 px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white disabled:opacity-50"
+            />
+            <span className="text-xs text-gray-500">Optional. Pick "Tracker API" as the live mode to stream mints from <code>tracker-cli serve</code> instead of the RPC.</span>
+          </div>
+          {importedFrom && (
+            <div className="mt-4 p-3 rounded-lg bg-sky-900/30 border border-sky-700 text-sky-200 text-sm flex items-center justify-between gap-3">
+              <span>Viewing imported file <span className="font-mono">{importedFrom}</span>. Live and scan are disabled.</span>
+              <button onClick={closeImport} className="px-4 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">Close</button>
+            </div>
+          )}
           {error && <div className="mt-4 p-3 rounded-lg bg-red-900/50 border border-red-700 text-red-300 text-sm">{error}</div>}
         </div>
         
-        <div className="space-y-8">
-            <section>
-                <h2 className="text-xl font-semibold mb-3 text-gray-200">Contract Summary</h2>
-                <div className="overflow-x-auto rounded-xl border border-gray-700 bg-gray-800/50">
-                    <table className="min-w-full text-sm">
-                        <thead className="bg-gray-900/70">
-                            <tr className="text-left text-gray-400">
-                                <th className="px-4 py-3 font-medium">Contract</th>
-                                <th className="px-4 py-3 font-medium">Type</th>
-                                <th className="px-4 py-3 font-medium hidden md:table-cell">Address</th>
-                                <th className="px-4 py-3 font-medium text-right">Mints</th>
-                                <th className="px-4 py-3 font-medium text-right">Unique Tokens</th>
-                            </tr>
-                        </thead>
-                        <tbody className="divide-y divide-gray-700">
-                            {summaryList.length === 0 ? (
-                                <tr><td className="px-4 py-4 text-center text-gray-500" colSpan={5}>No data yet. Click "Live" to start.</td></tr>
-                            ) : (
-                                summaryList.map(s => (
-                                    <tr key={s.address} className="hover:bg-gray-800/60">
-                                        <td className="px-4 py-3 font-semibold text-white">{s.name || "Unknown"} {s.symbol ? `(${s.symbol})` : ""}</td>
-                                        <td className="px-4 py-3">{getTypePill(s.type)}</td>
-                                        <td className="px-4 py-3 font-mono text-gray-400 hidden md:table-cell">{shortenAddress(s.address)}</td>
-                                        <td className="px-4 py-3 font-mono text-right text-white">{s.totalMintEvents}</td>
-                                        <td className="px-4 py-3 font-mono text-right text-white">{s.type === TokenType.ERC20 ? 'N/A' : s.uniqueTokens}</td>
-                                    </tr>
-                                ))
-                            )}
-                        </tbody>
-                    </table>
-                </div>
-            </section>
-
-            <section>
-                <h2 className="text-xl font-semibold mb-3 text-gray-200">All Mint Details</h2>
-                <div className="overflow-x-auto rounded-xl border border-gray-700 bg-gray-800/50">
-                    <table className="min-w-full text-sm">
-                        <thead className="bg-gray-900/70">
-                            <tr className="text-left text-gray-400">
-                                <th className="px-4 py-3 font-medium">Time</th>
-                                <th className="px-4 py-3 font-medium">Type</th>
-                                <th className="px-4 py-3 font-medium">Contract</th>
-                                <th className="px-4 py-3 font-medium hidden sm:table-cell">Recipient</th>
-                                <th className="px-4 py-3 font-medium">Details</th>
-                                <th className="px-4 py-3 font-medium hidden md:table-cell">Tx</th>
-                            </tr>
-                        </thead>
-                        <tbody className="divide-y divide-gray-700">
-                            {mints.length === 0 ? (
-                                <tr><td className="px-4 py-4 text-center text-gray-500" colSpan={6}>Waiting for mint events...</td></tr>
-                            ) : (
-                                mints.map(it => {
-                                    const meta = metaCache.current.get(it.contract);
-                                    const isNft = it.type === TokenType.ERC721 || it.type === TokenType.ERC1155;
-                                    return (
-                                        <tr key={`${it.txHash}-${it.logIndex}`} 
-                                            onClick={() => handleRowClick(it)}
-                                            className={`hover:bg-gray-800/60 ${isNft ? 'cursor-pointer' : ''}`}
+        {collection && summaries[collection] ? (
+          <CollectionPage
+            summary={summaries[collection]}
+            items={collectionItems}
+            network={network}
+            watched={collectionWatched}
+            onToggleWatch={toggleCollectionWatch}
+            riskFlags={riskReport.collections.get(collection)}
+            riskVerdict={riskVerdict(riskOverrides, collection)}
+            onRiskVerdict={(verdict) => updateRiskVerdict(collection, verdict)}
+            onBack={() => setCollection(null)}
+            onShowMints={showCollectionMints}
+          />
+        ) : showMyMints ? (
+          <MyMintsPage
+            address={wallet}
+            network={network}
+            canConnect={!!injectedWallet}
+            connected={walletConnected}
+            walletChainId={walletChainId}
+            items={walletItems}
+            holdings={holdings}
+            metaFor={metaFor}
+            resolver={tokenResolver}
+            latestBlock={importedFrom ? null : latestBlock}
+            backfill={walletScan}
+            onConnect={connectInjectedWallet}
+            onDisconnect={() => updateWallet(null, false)}
+            onSetAddress={(address) => updateWallet(address, false)}
+            onSwitchChain={switchChain}
+            onBackfill={backfillWallet}
+            onCancelBackfill={() => { walletScanCancelled.current = true; }}
+            onRefreshHoldings={() => setHoldingsToken(t => t + 1)}
+            onShowMints={showWalletMints}
+            onOpen={setMintDetail}
+            onBack={() => setShowMyMints(false)}
+          />
+        ) : (
+          <>
+            <FilterBar filters={filters} onChange={setFilters} />
+
+            <div className="space-y-8">
+                <section>
+                    <div className="flex items-center justify-between gap-4 mb-3">
+                        <h2 className="text-xl font-semibold text-gray-200">Contract Summary</h2>
+                        <ExportButtons onExport={exportSummaries} disabled={summaryList.length === 0} />
+                    </div>
+                    <div className="overflow-x-auto rounded-xl border border-gray-700 bg-gray-800/50">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-gray-900/70">
+                                <tr className="text-left text-gray-400">
+                                    <SortHeader label="Contract" sortKey="name" sort={summarySort} onSort={setSummarySort} />
+                                    <SortHeader label="Type" sortKey="type" sort={summarySort} onSort={setSummarySort} />
+                                    <SortHeader label="Address" sortKey="address" sort={summarySort} onSort={setSummarySort} className="hidden md:table-cell" />
+                                    <SortHeader label="Mints" sortKey="mints" sort={summarySort} onSort={setSummarySort} className="text-right" />
+                                    <SortHeader label="Unique Tokens" sortKey="unique" sort={summarySort} onSort={setSummarySort} className="text-right" />
+                                    <SortHeader label="Circulating" sortKey="supply" sort={summarySort} onSort={setSummarySort} className="text-right hidden lg:table-cell" />
+                                    <SortHeader label="Holders" sortKey="holders" sort={summarySort} onSort={setSummarySort} className="text-right hidden lg:table-cell" />
+                                    <th className="px-4 py-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-700">
+                                {summaryList.length === 0 ? (
+                                    <tr><td className="px-4 py-4 text-center text-gray-500" colSpan={8}>{Object.keys(summaries).length === 0 ? 'No data yet. Click "Live" or "Scan" to start.' : "No contracts match the current filters."}</td></tr>
+                                ) : (
+                                    summaryList.map(s => (
+                                        <tr key={s.address}
+                                            onClick={() => setCollection(s.address)}
+                                            title="Open collection analytics"
+                                            className={`cursor-pointer hover:bg-gray-800/60 ${filters.contract === s.address ? "bg-amber-500/10" : ""}`}
                                         >
-                                            <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{fmtTime(it.timestamp)} <span className="text-gray-500 hidden sm:inline">({it.blockNumber})</span></td>
-                                            <td className="px-4 py-3">{getTypePill(it.type)}</td>
-                                            <td className="px-4 py-3 text-white">{meta?.name || shortenAddress(it.contract)}</td>
-                                            <td className="px-4 py-3 font-mono text-gray-400 hidden sm:table-cell">{shortenAddress(it.to)}</td>
-                                            <td className="px-4 py-3 font-mono text-amber-300">
-                                              {it.type === TokenType.ERC721 && `ID: ${it.tokenId}`}
-                                              {it.type === TokenType.ERC20 && `Amount: ${formatAmount(it.amount, meta?.decimals)}`}
-                                              {it.type === TokenType.ERC1155 && `ID: ${it.tokenId}, Amt: ${it.amount}`}
+                                            <td className="px-4 py-3 font-semibold text-white">{s.name || "Unknown"} {s.symbol ? `(${s.symbol})` : ""}</td>
+                                            <td className="px-4 py-3 whitespace-nowrap">{getTypePill(s.type)}{getRiskBadges(riskReport.collections.get(s.address), riskVerdict(riskOverrides, s.address))}</td>
+                                            <td className="px-4 py-3 font-mono text-gray-400 hidden md:table-cell">{shortenAddress(s.address)}</td>
+                                            <td className="px-4 py-3 font-mono text-right text-white">{s.totalMintEvents}</td>
+                                            <td className="px-4 py-3 font-mono text-right text-white">{s.type === TokenType.ERC20 ? 'N/A' : s.uniqueTokens}</td>
+                                            <td className="px-4 py-3 font-mono text-right text-white hidden lg:table-cell" title={s.burnEvents ? `${s.burnEvents} burns` : undefined}>
+                                                {s.type === TokenType.ERC20 ? formatAmount(s.circulatingSupply.toString(), s.decimals) : s.circulatingSupply.toString()}
+                                            </td>
+                                            <td className="px-4 py-3 font-mono text-right text-white hidden lg:table-cell">{s.holders}</td>
+                                            <td className="px-4 py-3 text-right">
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); toggleContractFilter(s.address); }}
+                                                    title="Show only this contract's mints"
+                                                    className={`px-2 py-1 rounded-md text-xs ${filters.contract === s.address ? "bg-amber-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"}`}
+                                                >
+                                                    Filter
+                                                </button>
                                             </td>
-                                            <td className="px-4 py-3 font-mono text-gray-400 hidden md:table-cell">{shortenAddress(it.txHash)}</td>
                                         </tr>
-                                    );
-                                })
-                            )}
-                        </tbody>
-                    </table>
-                </div>
-            </section>
-        </div>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+
+                <section>
+                    <div className="flex items-center justify-between gap-4 mb-3">
+                        <h2 className="text-xl font-semibold text-gray-200">{activityMode === "all" ? "All Activity" : "All Mint Details"}</h2>
+                        <div className="flex items-center gap-4">
+                            <div className="flex text-xs rounded-md overflow-hidden border border-gray-700" title="All activity also records transfers and burns of tracked collections from now on">
+                                {([["mints", "Mints only"], ["all", "All activity"]] as [ActivityMode, string][]).map(([mode, label]) => (
+                                    <button key={mode} onClick={() => updateActivityMode(mode)} className={`px-2 py-1 ${activityMode === mode ? "bg-amber-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"}`}>
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <ExportButtons onExport={exportMints} disabled={mintView.count === 0} />
+                        </div>
+                    </div>
+                    <VirtualTable
+                        header={
+                            <tr className="text-left text-gray-400">
+                                <SortHeader label="Time" sortKey="time" sort={mintSort} onSort={setMintSort} />
+                                <SortHeader label="Type" sortKey="type" sort={mintSort} onSort={setMintSort} />
+                                <th className="px-4 py-3 font-medium">Token</th>
+                                <SortHeader label="Contract" sortKey="contract" sort={mintSort} onSort={setMintSort} />
+                                <SortHeader label="Recipient" sortKey="recipient" sort={mintSort} onSort={setMintSort} className="hidden sm:table-cell" />
+                                <SortHeader label="Details" sortKey="details" sort={mintSort} onSort={setMintSort} />
+                                <SortHeader label="Tx" sortKey="tx" sort={mintSort} onSort={setMintSort} className="hidden md:table-cell" />
+                            </tr>
+                        }
+                        rowCount={mintView.count}
+                        getRow={mintView.at}
+                        colSpan={7}
+                        resetKey={`${JSON.stringify(filters)}|${mintSort.key}:${mintSort.dir}`}
+                        emptyText={mintBuffer.current.size === 0 ? "Waiting for mint events..." : "No mints match the current filters."}
+                        renderRow={(it: ActivityItem) => {
+                            const meta = metaCache.current.get(it.contract);
+                            const isNft = it.type === TokenType.ERC721 || it.type === TokenType.ERC1155;
+                            return (
+                                <tr key={mintKey(it)} 
+                                    onClick={() => setMintDetail(it)}
+                                    style={{ height: ROW_HEIGHT }}
+                                    className="hover:bg-gray-800/60 whitespace-nowrap cursor-pointer"
+                                >
+                                    <td className="px-4 py-3 text-gray-400">{fmtTime(it.timestamp)} <span className="text-gray-500 hidden sm:inline">({it.blockNumber})</span></td>
+                                    <td className="px-4 py-3">{getTypePill(it.type)} {isTransfer(it) ? getActivityBadge(it.kind) : getMatchBadge(it.matchedBy)}{getRiskBadges(riskReport.mints.get(mintKey(it)), riskVerdict(riskOverrides, it.contract))}</td>
+                                    <td className="px-4 py-1">{isNft && <TokenThumb item={it} resolver={tokenResolver} onOpen={setMintDetail} />}</td>
+                                    <td className="px-4 py-3 text-white max-w-[16rem] truncate">{meta?.name || shortenAddress(it.contract)}</td>
+                                    <td className="px-4 py-3 font-mono text-gray-400 hidden sm:table-cell">
+                                      {isTransfer(it) && <>{shortenAddress(it.from)} → </>}
+                                      {isTransfer(it) && it.kind === "burn" ? "burned" : shortenAddress(it.to)}
+                                    </td>
+                                    <td className="px-4 py-3 font-mono text-amber-300 max-w-[16rem] truncate">
+                                      {it.type === TokenType.ERC721 && `ID: ${it.tokenId}`}
+                                      {it.type === TokenType.ERC20 && `Amount: ${formatAmount(it.amount, meta?.decimals)}`}
+                                      {it.type === TokenType.ERC1155 && `ID: ${it.tokenId}, Amt: ${it.amount}`}
+                                    </td>
+                                    <td className="px-4 py-3 font-mono text-gray-400 hidden md:table-cell">
+                                      <a href={`${network.explorerUrl}/tx/${it.txHash}`} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="hover:text-amber-400 hover:underline">
+                                        {shortenAddress(it.txHash)}
+                                      </a>
+                                    </td>
+                                </tr>
+                            );
+                        }}
+                    />
+                </section>
+            </div>
+          </>
+        )}
+
+        <Toasts alerts={toasts} onDismiss={dismissToast} onOpen={setMintDetail} />
+
+        {mintDetail && (
+            <MintDrawer
+                item={mintDetail}
+                network={network}
+                provider={httpProvider}
+                metaFor={metaFor}
+                registryFor={registryFor}
+                resolver={tokenResolver}
+                onSelect={setMintDetail}
+                onClose={closeMintDetail}
+            />
+        )}
 
         <footer className="text-center text-xs text-gray-500 pt-4 border-t border-gray-800">
           <p>
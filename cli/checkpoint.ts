@@ -0,0 +1,39 @@
+import { readFile, writeFile, rename } from "node:fs/promises";
+import { RegistryEntry } from '../core/registry';
+
+// `registryBlock`: how far the factory backfill got
+export type Checkpoint = { blockNumber: number | null; collections: RegistryEntry[]; registryBlock: number | null };
+
+type CheckpointData = { networkId: string; blockNumber: number | null; collections?: RegistryEntry[]; registryBlock?: number | null };
+
+/**
+ * Last fully processed block and the collection registry, kept in a small JSON
+ * file so `watch` and `scan` can resume where a previous run stopped. Writes go
+ * through a temp file so a crash mid-write never leaves a truncated checkpoint.
+ */
+export class CheckpointFile {
+  constructor(private readonly path: string, private readonly networkId: string) {}
+
+  async load(): Promise<Checkpoint | null> {
+    try {
+      const data = JSON.parse(await readFile(this.path, "utf8")) as CheckpointData;
+      if (data.networkId !== this.networkId) {
+        throw new Error(`Checkpoint ${this.path} belongs to network "${data.networkId}", not "${this.networkId}"`);
+      }
+      return {
+        blockNumber: Number.isInteger(data.blockNumber) ? data.blockNumber : null,
+        collections: Array.isArray(data.collections) ? data.collections : [],
+        registryBlock: Number.isInteger(data.registryBlock) ? data.registryBlock! : null,
+      };
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async save({ blockNumber, collections, registryBlock }: Checkpoint) {
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify({ networkId: this.networkId, blockNumber, collections, registryBlock } satisfies CheckpointData));
+    await rename(tmp, this.path);
+  }
+}
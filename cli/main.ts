@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { NetworkConfig } from '../types';
+import { DEFAULT_SCAN_BLOCKS, POLL_INTERVAL_MS, RPC_MAX_RPS, RPC_MAX_CONCURRENCY, RPC_MAX_ATTEMPTS, RPC_BACKOFF_BASE_MS, RPC_BACKOFF_MAX_MS, RPC_REQUEST_TIMEOUT_MS } from '../constants';
+import { NETWORKS, DEFAULT_NETWORK_ID, parseFactoryList } from '../networks';
+import { DEFAULT_SUMMARY_SORT, sortSummaries } from '../core/filters';
+import { RpcPool, PooledJsonRpcProvider } from '../core/rpcPool';
+import { HeadlessTracker } from './tracker';
+import { OutputFormat, createSink } from './output';
+import { CheckpointFile } from './checkpoint';
+import { createApiServer } from './server';
+
+const DEFAULT_PORT = 8787;
+
+const USAGE = `Usage: tracker-cli <watch|scan|summary|serve> [options]
+
+Commands:
+  watch                 Follow the chain head and print mints as they land
+  scan                  Print mints from a historical block range
+  summary               Scan a block range and print per-contract totals
+  serve                 Watch the chain and serve mints over HTTP (REST + Server-Sent Events)
+
+Options:
+  --network <id>        Network from the registry (default: ${DEFAULT_NETWORK_ID})
+  --rpc <url,url,..>    Override the network's HTTP RPCs, e.g. http://127.0.0.1:8545; several
+                        endpoints are used round-robin with failover
+  --rps <n>             Requests per second per RPC endpoint, 0 = unlimited (default: ${RPC_MAX_RPS})
+  --concurrency <n>     In-flight requests per RPC endpoint, 0 = unlimited (default: ${RPC_MAX_CONCURRENCY})
+  --chain-id <n>        Expected chain id when --rpc points elsewhere (e.g. 31337 for Anvil)
+  --contracts <a,b,..>  Override the mint contract whitelist
+  --factories <json>    Override the NFTS2ME factories, a JSON array of FactoryConfig ("[]" for none)
+  --implementations <a,b,..>
+                        Override the NFTS2ME proxy implementations ("" for none)
+  --from <block>        First block (default: checkpoint, else the head for watch or head - --blocks)
+  --to <block>          Last block (scan/summary, default: head)
+  --blocks <n>          Range size when --from is omitted (default: ${DEFAULT_SCAN_BLOCKS})
+  --format <f>          table or ndjson (default: table)
+  --out <file>          Also append NDJSON records to this file
+  --checkpoint <file>   Resume from and save the last processed block here
+  --poll <ms>           Head poll interval for watch/serve (default: ${POLL_INTERVAL_MS})
+  --port <n>            HTTP port for serve (default: ${DEFAULT_PORT})
+  --host <addr>         Interface for serve to listen on (default: 127.0.0.1)
+  -h, --help            Show this help
+`;
+
+const COMMANDS = ["watch", "scan", "summary", "serve"] as const;
+type Command = typeof COMMANDS[number];
+
+function parseBlock(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isInteger(n) || n < 0) throw new Error(`--${name} must be a block number (a non-negative integer)`);
+  return n;
+}
+
+// Counts, ids and ports: an integer in [min, max]
+function parseInteger(name: string, value: string | undefined, min: number, max?: number): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isInteger(n) || n < min || (max !== undefined && n > max)) {
+    throw new Error(`--${name} must be an integer ${max === undefined ? `of at least ${min}` : `from ${min} to ${max}`}`);
+  }
+  return n;
+}
+
+const list = (value: unknown) => String(value).split(",").map(s => s.trim()).filter(Boolean);
+
+// Only worth reading when the endpoints misbehaved
+function reportPool(pool: RpcPool) {
+  const stats = pool.stats();
+  if (stats.retries === 0 && stats.failed === 0) return;
+  console.error(`RPC: ${stats.requests} requests, ${stats.retries} retries, ${stats.failovers} failovers, ${stats.failed} failed`);
+  for (const e of stats.endpoints) {
+    const latency = e.avgLatencyMs === null ? "-" : `${e.avgLatencyMs} ms`;
+    console.error(`  ${e.url}: ${e.requests} requests, ${e.errors} errors (${e.rateLimited} rate limited), avg ${latency}`);
+  }
+}
+
+function resolveNetwork(values: Record<string, any>): NetworkConfig {
+  const base = NETWORKS.find(n => n.id === (values.network ?? DEFAULT_NETWORK_ID));
+  if (!base) throw new Error(`Unknown network "${values.network}". Known: ${NETWORKS.map(n => n.id).join(", ")}`);
+  const rpcs = values.rpc ? list(values.rpc) : [];
+  return {
+    ...base,
+    httpUrl: rpcs[0] ?? base.httpUrl,
+    extraHttpUrls: rpcs.length ? rpcs.slice(1) : base.extraHttpUrls,
+    chainId: parseInteger("chain-id", values["chain-id"], 1) ?? base.chainId,
+    mintContracts: values.contracts ? list(values.contracts) : base.mintContracts,
+    factories: values.factories !== undefined ? parseFactoryList(values.factories) : base.factories,
+    implementations: values.implementations !== undefined ? list(values.implementations) : base.implementations,
+  };
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      network: { type: "string" },
+      rpc: { type: "string" },
+      rps: { type: "string" },
+      concurrency: { type: "string" },
+      "chain-id": { type: "string" },
+      contracts: { type: "string" },
+      factories: { type: "string" },
+      implementations: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      blocks: { type: "string" },
+      format: { type: "string", default: "table" },
+      out: { type: "string" },
+      checkpoint: { type: "string" },
+      poll: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string", default: "127.0.0.1" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0] as Command;
+  if (values.help || !COMMANDS.includes(command)) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (values.format !== "table" && values.format !== "ndjson") throw new Error("--format must be table or ndjson");
+
+  const network = resolveNetwork(values);
+  const pool = new RpcPool([network.httpUrl, ...(network.extraHttpUrls ?? [])], {
+    maxRps: parseInteger("rps", values.rps, 0) ?? RPC_MAX_RPS,
+    maxConcurrency: parseInteger("concurrency", values.concurrency, 0) ?? RPC_MAX_CONCURRENCY,
+    maxAttempts: RPC_MAX_ATTEMPTS,
+    backoffBaseMs: RPC_BACKOFF_BASE_MS,
+    backoffMaxMs: RPC_BACKOFF_MAX_MS,
+    timeoutMs: RPC_REQUEST_TIMEOUT_MS,
+  });
+  const provider = new PooledJsonRpcProvider(pool, undefined, { staticNetwork: true });
+  const sink = createSink(values.format as OutputFormat, values.out, command === "watch" || command === "scan");
+  const checkpoint = values.checkpoint ? new CheckpointFile(values.checkpoint, network.id) : null;
+  const tracker = new HeadlessTracker(provider, network, sink, checkpoint);
+
+  // First signal finishes the current chunk and saves the checkpoint; a second one exits at once
+  const onSignal = () => {
+    if (tracker.isStopped) process.exit(130);
+    console.error("Stopping after the current chunk...");
+    tracker.stop();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  try {
+    await tracker.verifyChain();
+    const resume = await tracker.resumePoint();
+    const head = await provider.getBlockNumber();
+    if (!await tracker.backfillRegistry(head)) return 130;
+
+    if (command === "watch") {
+      const from = parseBlock("from", values.from) ?? (resume !== null ? resume + 1 : head + 1);
+      console.error(`Watching ${network.name} from block ${from}`);
+      await tracker.watch(from, parseInteger("poll", values.poll, 1) ?? POLL_INTERVAL_MS);
+      return 0;
+    }
+
+    if (command === "serve") {
+      // Backfill the last --blocks so the API has history to page through
+      const blocks = parseInteger("blocks", values.blocks, 1) ?? DEFAULT_SCAN_BLOCKS;
+      const from = parseBlock("from", values.from) ?? (resume !== null ? resume + 1 : Math.max(0, head - blocks + 1));
+      const port = parseInteger("port", values.port, 0, 65535) ?? DEFAULT_PORT;
+      const server = createApiServer(tracker);
+      await new Promise<void>(resolve => server.listen(port, values.host, resolve));
+      console.error(`Serving ${network.name} on http://${values.host}:${port} from block ${from}`);
+      await tracker.watch(from, parseInteger("poll", values.poll, 1) ?? POLL_INTERVAL_MS);
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+      return 0;
+    }
+
+    const to = parseBlock("to", values.to) ?? head;
+    const blocks = parseInteger("blocks", values.blocks, 1) ?? DEFAULT_SCAN_BLOCKS;
+    const from = parseBlock("from", values.from) ?? (resume !== null ? resume + 1 : Math.max(0, to - blocks + 1));
+    if (from > to) {
+      console.error(`Nothing to scan: block ${from} is past ${to}`);
+      return 0;
+    }
+    console.error(`Scanning ${network.name} blocks ${from}-${to}`);
+    const complete = await tracker.scan(from, to);
+    if (command === "summary") {
+      await sink.writeSummaries(sortSummaries(Object.values(tracker.summaries), DEFAULT_SUMMARY_SORT));
+    }
+    return complete ? 0 : 130;
+  } finally {
+    reportPool(pool);
+    provider.destroy();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e?.message ?? e);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,65 @@
+import { appendFile } from "node:fs/promises";
+import { TokenType, MintItem, CollSummary, ContractMeta } from '../types';
+import { mintToRecord, summaryToRecord, formatMintAmount } from '../core/serialize';
+
+export type OutputFormat = "table" | "ndjson";
+
+export type MintSink = {
+  writeMints(items: readonly MintItem[], metaFor: (address: string) => ContractMeta | undefined): Promise<void>;
+  writeSummaries(list: readonly CollSummary[]): Promise<void>;
+};
+
+const pad = (cols: string[], widths: number[]) => cols.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+const shorten = (s: string) => `${s.slice(0, 10)}…${s.slice(-6)}`;
+
+const MINT_WIDTHS = [20, 8, 24, 18, 30, 18];
+const SUMMARY_WIDTHS = [28, 8, 42, 8, 8, 8];
+
+function mintRow(it: MintItem, meta?: ContractMeta): string {
+  const details = it.type === TokenType.ERC20
+    ? `Amount: ${formatMintAmount(it, meta?.decimals)}`
+    : it.type === TokenType.ERC721 ? `ID: ${it.tokenId}` : `ID: ${it.tokenId}, Amt: ${it.amount}`;
+  const time = it.timestamp ? new Date(it.timestamp * 1000).toISOString().slice(0, 19).replace("T", " ") : `#${it.blockNumber}`;
+  return pad([time, it.type, (meta?.name || shorten(it.contract)).slice(0, 24), shorten(it.to), details.slice(0, 30), shorten(it.txHash)], MINT_WIDTHS);
+}
+
+/**
+ * Writes mints and summaries to stdout as an aligned table or NDJSON, and
+ * optionally appends NDJSON to `outFile` as well. With `printMints` off, mints
+ * only go to the file (e.g. when only the summary is wanted on stdout).
+ */
+export function createSink(format: OutputFormat, outFile?: string, printMints = true): MintSink {
+  let headerPrinted = false;
+  const append = (lines: string[]) => (outFile && lines.length ? appendFile(outFile, lines.join("\n") + "\n") : Promise.resolve());
+
+  return {
+    async writeMints(items, metaFor) {
+      const records = items.map(it => JSON.stringify(mintToRecord(it, metaFor(it.contract))));
+      if (printMints && format === "ndjson") {
+        records.forEach(r => process.stdout.write(r + "\n"));
+      } else if (printMints) {
+        if (!headerPrinted && items.length) {
+          console.log(pad(["Time", "Type", "Contract", "Recipient", "Details", "Tx"], MINT_WIDTHS));
+          headerPrinted = true;
+        }
+        items.forEach(it => console.log(mintRow(it, metaFor(it.contract))));
+      }
+      await append(records);
+    },
+
+    async writeSummaries(list) {
+      const records = list.map(s => JSON.stringify(summaryToRecord(s)));
+      if (format === "ndjson") {
+        records.forEach(r => process.stdout.write(r + "\n"));
+      } else {
+        console.log(pad(["Contract", "Type", "Address", "Mints", "Unique", "Holders"], SUMMARY_WIDTHS));
+        for (const s of list) {
+          const name = `${s.name || "Unknown"}${s.symbol ? ` (${s.symbol})` : ""}`.slice(0, 28);
+          const unique = s.type === TokenType.ERC20 ? "N/A" : String(s.uniqueTokens);
+          console.log(pad([name, s.type, s.address, String(s.totalMintEvents), unique, String(s.holders)], SUMMARY_WIDTHS));
+        }
+      }
+      await append(records);
+    },
+  };
+}
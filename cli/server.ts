@@ -0,0 +1,90 @@
+import http from "node:http";
+import { ethers } from "ethers";
+import { ApiStatus, parseMintQuery, parseOwnersPage, queryMints, summaryToJson } from '../core/api';
+import { HeadlessTracker, TrackerEvent } from './tracker';
+
+const SSE_HEARTBEAT_MS = 15000;
+
+type Reply = { status: number; body: unknown };
+
+const notFound = (message = "Not found"): Reply => ({ status: 404, body: { error: message } });
+const badRequest = (message: string): Reply => ({ status: 400, body: { error: message } });
+
+/**
+ * Read-only JSON API over a running tracker:
+ *   GET /status, GET /mints, GET /collections, GET /collections/:address, GET /stream (SSE)
+ * CORS is open so dashboards and the web app can call it from another origin.
+ */
+export function createApiServer(tracker: HeadlessTracker): http.Server {
+  const route = (url: URL): Reply => {
+    const parts = url.pathname.split("/").filter(Boolean);
+    if (parts[0] === "status" && parts.length === 1) {
+      const status: ApiStatus = { network: tracker.network.id, chainId: tracker.network.chainId, lastBlock: tracker.lastBlock };
+      return { status: 200, body: status };
+    }
+    if (parts[0] === "mints" && parts.length === 1) {
+      try {
+        return { status: 200, body: queryMints(tracker.recentMints(), parseMintQuery(url.searchParams)) };
+      } catch (e: any) {
+        return badRequest(e.message);
+      }
+    }
+    if (parts[0] === "collections" && parts.length === 1) {
+      // Owners are only served per collection, a page at a time
+      return { status: 200, body: Object.values(tracker.summaries).map(s => summaryToJson(s, { offset: 0, limit: 0 })) };
+    }
+    if (parts[0] === "collections" && parts.length === 2) {
+      if (!ethers.isAddress(parts[1])) return badRequest(`Invalid address "${parts[1]}"`);
+      const summary = tracker.summaries[ethers.getAddress(parts[1])];
+      if (!summary) return notFound("No mints seen for this collection");
+      try {
+        return { status: 200, body: summaryToJson(summary, parseOwnersPage(url.searchParams)) };
+      } catch (e: any) {
+        return badRequest(e.message);
+      }
+    }
+    return notFound();
+  };
+
+  const stream = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+    });
+    res.write("retry: 3000\n\n");
+    const send = (e: TrackerEvent) => {
+      const data = e.type === "mints" ? e.items : { fromBlock: e.fromBlock };
+      res.write(`event: ${e.type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const unsubscribe = tracker.subscribe(send);
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  };
+
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Methods": "GET", "Access-Control-Allow-Headers": "*" });
+      res.end();
+      return;
+    }
+    if (req.method !== "GET") {
+      res.writeHead(405, { Allow: "GET" });
+      res.end();
+      return;
+    }
+    if (url.pathname === "/stream") {
+      stream(req, res);
+      return;
+    }
+    const reply = route(url);
+    res.writeHead(reply.status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    res.end(JSON.stringify(reply.body));
+  });
+}
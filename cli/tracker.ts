@@ -0,0 +1,193 @@
+import { ethers } from "ethers";
+import { MintItem, CollSummary, ContractMeta, NetworkConfig } from '../types';
+import { MINT_LOG_TOPICS, SCAN_INITIAL_CHUNK, SCAN_MAX_CHUNK, SCAN_CHUNK_ATTEMPTS, SCAN_RETRY_DELAY_MS, REGISTRY_BACKFILL_MAX_CHUNK, TX_CACHE_SIZE, BLOCK_CACHE_SIZE, SEEN_KEYS_CAP, REORG_CHECK_DEPTH, MINT_BUFFER_CAP, REGISTRY_PROBE_CACHE_SIZE } from '../constants';
+import { createMintWhitelist } from '../core/decoder';
+import { mintKey, applyActivity, applyMeta, retractActivity } from '../core/aggregator';
+import { LruCache } from '../core/lru';
+import { MintBuffer } from '../core/mintBuffer';
+import { ChainLookup } from '../core/lookup';
+import { collectMints } from '../core/pipeline';
+import { scanLogs } from '../core/scan';
+import { BlockHashTracker } from '../core/reorg';
+import { fetchContractMeta } from '../core/contractMeta';
+import { CollectionRegistry } from '../core/registry';
+import { MintSink } from './output';
+import { CheckpointFile } from './checkpoint';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export type TrackerEvent =
+  | { type: "mints"; items: MintItem[] }
+  | { type: "reorg"; fromBlock: number }; // mints from this block on were retracted
+
+/**
+ * The browser tracker's pipeline without React: pages logs through the shared
+ * scanner, keeps mints to the minter or to registry collections, resolves
+ * timestamps and contract metadata, then hands each chunk to the sink before
+ * advancing the checkpoint.
+ */
+export class HeadlessTracker {
+  summaries: Record<string, CollSummary> = {};
+  lastBlock: number | null = null; // last fully processed block
+  private registryBlock: number | null = null; // last block the factory backfill covered
+  private readonly lookup: ChainLookup;
+  private readonly whitelist: ReadonlySet<string>;
+  readonly registry: CollectionRegistry;
+  private readonly meta = new Map<string, ContractMeta>();
+  private readonly seen = new LruCache<string, true>(SEEN_KEYS_CAP);
+  private readonly reorg = new BlockHashTracker(REORG_CHECK_DEPTH);
+  private readonly buffer = new MintBuffer(MINT_BUFFER_CAP); // same bound as the browser, for reorg retraction
+  private stopped = false;
+  private wake: (() => void) | null = null;
+  private listeners = new Set<(e: TrackerEvent) => void>();
+
+  constructor(
+    private readonly provider: ethers.JsonRpcProvider,
+    readonly network: NetworkConfig,
+    private readonly sink: MintSink,
+    private readonly checkpoint: CheckpointFile | null,
+  ) {
+    this.lookup = new ChainLookup(provider, TX_CACHE_SIZE, BLOCK_CACHE_SIZE);
+    this.whitelist = createMintWhitelist(network.mintContracts);
+    this.registry = new CollectionRegistry(network.factories ?? [], network.implementations ?? [], REGISTRY_PROBE_CACHE_SIZE);
+  }
+
+  get isStopped() {
+    return this.stopped;
+  }
+
+  /** Requests a graceful stop: the current chunk finishes and is checkpointed first. */
+  stop() {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  async verifyChain() {
+    const chainId = Number(await this.provider.send("eth_chainId", []));
+    if (chainId !== this.network.chainId) {
+      throw new Error(`RPC serves chain ${chainId}, expected ${this.network.chainId} (${this.network.name})`);
+    }
+  }
+
+  /** Restores saved registry entries and returns the last checkpointed block, if any. */
+  async resumePoint(): Promise<number | null> {
+    const saved = await this.checkpoint?.load();
+    if (!saved) return null;
+    this.registry.load(saved.collections);
+    this.registryBlock = saved.registryBlock;
+    this.lastBlock = saved.blockNumber;
+    return saved.blockNumber;
+  }
+
+  /** Reads the factories' past creation events up to `head`, resuming the checkpointed backfill. */
+  async backfillRegistry(head: number): Promise<boolean> {
+    if (!this.registry.canBackfill) return true;
+    const from = this.registryBlock === null ? 0 : this.registryBlock + 1;
+    if (from <= head) console.error(`Backfilling NFTS2ME factory events up to block ${head}`);
+    return this.registry.backfill(this.provider, from, head, {
+      initialChunk: SCAN_MAX_CHUNK,
+      maxChunk: REGISTRY_BACKFILL_MAX_CHUNK,
+      isCancelled: () => this.stopped,
+      attempts: SCAN_CHUNK_ATTEMPTS,
+      retryDelayMs: SCAN_RETRY_DELAY_MS,
+      onProgress: (block) => {
+        this.registryBlock = block;
+        return this.saveCheckpoint();
+      },
+    });
+  }
+
+  private async saveCheckpoint() {
+    await this.checkpoint?.save({ blockNumber: this.lastBlock, collections: this.registry.list(), registryBlock: this.registryBlock });
+  }
+
+  /** Newest first, up to the buffer capacity. */
+  recentMints(): MintItem[] {
+    return this.buffer.toArray();
+  }
+
+  subscribe(listener: (e: TrackerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(e: TrackerEvent) {
+    this.listeners.forEach(l => l(e));
+  }
+
+  /** Scans [from, to]; returns false when stopped before reaching `to`. */
+  async scan(from: number, to: number): Promise<boolean> {
+    const filter = { topics: [[...MINT_LOG_TOPICS, ...this.registry.topics]] };
+    return scanLogs(this.provider, filter, from, to, async (logs, end, start) => {
+      const fork = await this.reorg.reconcile(logs, start, end, async (n) => (await this.provider.getBlock(n))?.hash ?? null);
+      if (fork !== null) await this.retractFrom(fork);
+      await this.process(await collectMints(logs, this.lookup, this.whitelist, this.registry));
+      this.lastBlock = end;
+      await this.saveCheckpoint();
+    }, {
+      initialChunk: SCAN_INITIAL_CHUNK,
+      maxChunk: SCAN_MAX_CHUNK,
+      isCancelled: () => this.stopped,
+      attempts: SCAN_CHUNK_ATTEMPTS,
+      retryDelayMs: SCAN_RETRY_DELAY_MS,
+    });
+  }
+
+  /** Follows the head by polling, starting after `from - 1`, until stopped. */
+  async watch(from: number, pollMs: number) {
+    let next = from;
+    while (!this.stopped) {
+      try {
+        const head = await this.provider.getBlockNumber();
+        // Re-reads the recent tail so the scan can see blocks that were replaced
+        const tail = Math.max(from, next - REORG_CHECK_DEPTH);
+        if (head >= next && await this.scan(tail, head)) next = head + 1;
+      } catch (e) {
+        console.error("Poll failed:", e);
+      }
+      if (!this.stopped) await new Promise<void>(resolve => {
+        this.wake = resolve;
+        sleep(pollMs).then(resolve);
+      });
+      this.wake = null;
+    }
+  }
+
+  private async process(found: MintItem[]) {
+    const items = found.filter(it => !this.seen.has(mintKey(it)));
+    if (items.length === 0) return;
+
+    // Throws before anything is marked seen, so a retried chunk emits these again
+    const timestamps = await this.lookup.getBlockTimestamps(items.map(it => it.blockNumber));
+    items.forEach(it => (it.timestamp = timestamps.get(it.blockNumber)));
+    items.forEach(it => this.seen.set(mintKey(it), true));
+
+    const metaFor = (addr: string) => this.meta.get(addr);
+    this.summaries = applyActivity(this.summaries, items, metaFor);
+    await Promise.all([...new Map(items.map(it => [it.contract, it.type])).entries()].map(async ([addr, type]) => {
+      if (this.meta.has(addr)) return;
+      const meta = await fetchContractMeta(this.provider, addr, type).catch((e) => {
+        console.error("Failed to fetch contract metadata:", addr, e);
+        return null; // not cached, so the collection's next mint tries again
+      });
+      if (!meta) return;
+      this.meta.set(addr, meta);
+      this.summaries = applyMeta(this.summaries, addr, meta);
+    }));
+
+    this.buffer.insertMany(items);
+    await this.sink.writeMints(items, metaFor);
+    this.emit({ type: "mints", items });
+  }
+
+  // Drops what was read from `fork` on; the chunk being scanned reads it again
+  private async retractFrom(fork: number) {
+    console.error(`Reorg detected, rescanning from block ${fork}`);
+    const removed = this.buffer.removeWhere(it => it.blockNumber >= fork);
+    removed.forEach(it => this.seen.delete(mintKey(it)));
+    this.summaries = retractActivity(this.summaries, removed, this.buffer.toArray());
+    this.lastBlock = fork - 1;
+    await this.saveCheckpoint();
+    this.emit({ type: "reorg", fromBlock: fork });
+  }
+}
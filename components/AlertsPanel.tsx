@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { AlertSettings } from '../types';
+import { shortenAddress } from './format';
+
+type Props = {
+    settings: AlertSettings;
+    onChange: (next: AlertSettings) => void;
+};
+
+const inputClass = "px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white";
+
+// Add/remove list of addresses; invalid input is rejected with an inline message
+const Watchlist: React.FC<{ label: string; items: string[]; onChange: (items: string[]) => void }> = ({ label, items, onChange }) => {
+    const [draft, setDraft] = useState("");
+    const [invalid, setInvalid] = useState(false);
+
+    const add = () => {
+        const value = draft.trim();
+        if (!ethers.isAddress(value)) {
+            setInvalid(true);
+            return;
+        }
+        const address = ethers.getAddress(value);
+        if (!items.includes(address)) onChange([...items, address]);
+        setDraft("");
+        setInvalid(false);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="font-medium text-gray-400">{label}</div>
+            <div className="flex gap-2">
+                <input
+                    value={draft}
+                    onChange={(e) => { setDraft(e.target.value); setInvalid(false); }}
+                    onKeyDown={(e) => e.key === "Enter" && add()}
+                    placeholder="0x..."
+                    className={`flex-1 min-w-0 ${inputClass} ${invalid ? "border-red-600" : ""}`}
+                />
+                <button onClick={add} className="px-3 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600">Add</button>
+            </div>
+            {invalid && <div className="text-xs text-red-400">Not a valid address.</div>}
+            <div className="flex flex-wrap gap-2">
+                {items.map(a => (
+                    <span key={a} title={a} className="flex items-center gap-1 rounded-full bg-gray-900 border border-gray-700 px-3 py-1 font-mono text-xs text-gray-300">
+                        {shortenAddress(a)}
+                        <button onClick={() => onChange(items.filter(x => x !== a))} className="text-gray-500 hover:text-white">✕</button>
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const AlertsPanel: React.FC<Props> = ({ settings, onChange }) => {
+    const [permission, setPermission] = useState(() => (typeof Notification === "undefined" ? "unsupported" : Notification.permission));
+
+    const toggleBrowser = async (enabled: boolean) => {
+        if (enabled && typeof Notification !== "undefined" && Notification.permission === "default") {
+            setPermission(await Notification.requestPermission());
+        }
+        onChange({ ...settings, browserNotifications: enabled });
+    };
+
+    const { velocity } = settings;
+    return (
+        <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-4 shadow-lg space-y-4 text-sm">
+            <h2 className="text-xl font-semibold text-gray-200">Alerts</h2>
+            <div className="grid md:grid-cols-2 gap-6">
+                <Watchlist label="Watched collections" items={settings.watchedContracts} onChange={(watchedContracts) => onChange({ ...settings, watchedContracts })} />
+                <Watchlist label="Watched wallets" items={settings.watchedWallets} onChange={(watchedWallets) => onChange({ ...settings, watchedWallets })} />
+            </div>
+
+            <div className="space-y-2 text-gray-300">
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={settings.newCollection} onChange={(e) => onChange({ ...settings, newCollection: e.target.checked })} />
+                    A new collection's first mint appears
+                </label>
+                <label className="flex flex-wrap items-center gap-2">
+                    <input type="checkbox" checked={velocity.enabled} onChange={(e) => onChange({ ...settings, velocity: { ...velocity, enabled: e.target.checked } })} />
+                    A watched collection passes
+                    <input
+                        type="number"
+                        min={1}
+                        value={velocity.mints}
+                        onChange={(e) => onChange({ ...settings, velocity: { ...velocity, mints: Math.max(1, Number(e.target.value) || 1) } })}
+                        className={`w-20 ${inputClass}`}
+                    />
+                    mints in
+                    <input
+                        type="number"
+                        min={1}
+                        value={velocity.minutes}
+                        onChange={(e) => onChange({ ...settings, velocity: { ...velocity, minutes: Math.max(1, Number(e.target.value) || 1) } })}
+                        className={`w-20 ${inputClass}`}
+                    />
+                    minutes
+                </label>
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={settings.walletMints} onChange={(e) => onChange({ ...settings, walletMints: e.target.checked })} />
+                    A watched wallet receives a mint
+                </label>
+            </div>
+
+            <div className="pt-4 border-t border-gray-700 flex flex-col sm:flex-row sm:items-center gap-3">
+                <label className="flex items-center gap-2 text-gray-300">
+                    <input type="checkbox" checked={settings.browserNotifications} disabled={permission === "unsupported"} onChange={(e) => toggleBrowser(e.target.checked)} />
+                    Browser notifications
+                </label>
+                {settings.browserNotifications && permission === "denied" && (
+                    <span className="text-xs text-red-400">Blocked by the browser; allow notifications for this site.</span>
+                )}
+                <label className="flex items-center gap-2 text-gray-400 sm:ml-auto">
+                    Webhook
+                    <input
+                        type="url"
+                        value={settings.webhookUrl}
+                        onChange={(e) => onChange({ ...settings, webhookUrl: e.target.value.trim() })}
+                        placeholder="https://example.com/hook"
+                        className={`w-72 ${inputClass}`}
+                    />
+                </label>
+            </div>
+            <p className="text-xs text-gray-500">Alerts fire for the live feed only. Webhooks receive a JSON POST with the rule and the triggering mint.</p>
+        </div>
+    );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,59 @@
+import React from "react";
+
+type ChartProps = {
+    values: number[];
+    labels: string[]; // tooltip per point
+    color: string; // Tailwind fill/stroke class, e.g. "text-amber-400"
+    height?: number;
+};
+
+const WIDTH = 600;
+
+// Plain SVG charts scaled to the container width; no axis beyond the max label
+const ChartFrame: React.FC<{ max: number; height: number; children: React.ReactNode }> = ({ max, height, children }) => (
+    <div className="relative">
+        <span className="absolute left-1 top-0 text-[10px] text-gray-500">{max.toLocaleString()}</span>
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+            <line x1="0" y1={height - 0.5} x2={WIDTH} y2={height - 0.5} className="stroke-gray-700" strokeWidth="1" />
+            {children}
+        </svg>
+    </div>
+);
+
+export const BarChart: React.FC<ChartProps> = ({ values, labels, color, height = 140 }) => {
+    const max = Math.max(1, ...values);
+    const step = WIDTH / Math.max(1, values.length);
+    return (
+        <ChartFrame max={max} height={height}>
+            <g className={color} fill="currentColor">
+                {values.map((v, i) => {
+                    const h = (v / max) * (height - 14);
+                    return (
+                        <rect key={i} x={i * step + step * 0.1} y={height - h} width={Math.max(1, step * 0.8)} height={h}>
+                            <title>{labels[i]}</title>
+                        </rect>
+                    );
+                })}
+            </g>
+        </ChartFrame>
+    );
+};
+
+export const LineChart: React.FC<ChartProps> = ({ values, labels, color, height = 140 }) => {
+    const max = Math.max(1, ...values);
+    const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+    const y = (v: number) => height - (v / max) * (height - 14);
+    const points = values.map((v, i) => `${i * step},${y(v)}`).join(" ");
+    return (
+        <ChartFrame max={max} height={height}>
+            <g className={color}>
+                <polyline points={points} fill="none" stroke="currentColor" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+                {values.map((v, i) => (
+                    <circle key={i} cx={i * step} cy={y(v)} r="3" fill="currentColor" opacity="0">
+                        <title>{labels[i]}</title>
+                    </circle>
+                ))}
+            </g>
+        </ChartFrame>
+    );
+};
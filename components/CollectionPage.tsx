@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { CollSummary, MintItem, NetworkConfig, TokenType } from '../types';
+import { Bucketing, buildCollectionStats } from '../core/collectionStats';
+import { RiskFlag, RiskVerdict, RISK_FLAGS } from '../core/risk';
+import { nfts2meUrl } from '../networks';
+import { shortenAddress, formatAmount, fmtTime, getTypePill, getRiskBadges } from './format';
+import { BarChart, LineChart } from './Charts';
+
+type Props = {
+    summary: CollSummary;
+    items: MintItem[]; // this collection's mints from the buffer
+    network: NetworkConfig;
+    watched: boolean;
+    onToggleWatch: () => void;
+    riskFlags?: RiskFlag[];
+    riskVerdict?: RiskVerdict;
+    onRiskVerdict: (verdict: RiskVerdict | null) => void;
+    onBack: () => void;
+    onShowMints: () => void;
+};
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+    <div className="rounded-xl border border-gray-700 bg-gray-800/50 px-4 py-3">
+        <div className="text-xs text-gray-400">{label}</div>
+        <div className="mt-1 text-lg font-semibold text-white font-mono truncate">{value}</div>
+        {hint && <div className="text-xs text-gray-500">{hint}</div>}
+    </div>
+);
+
+const CollectionPage: React.FC<Props> = ({ summary, items, network, watched, onToggleWatch, riskFlags, riskVerdict, onRiskVerdict, onBack, onShowMints }) => {
+    const [bucketing, setBucketing] = useState<Bucketing>("minute");
+    const stats = useMemo(
+        () => buildCollectionStats(items, bucketing, summary.decimals),
+        [items, bucketing, summary.decimals]
+    );
+    const symbol = network.nativeSymbol ?? "ETH";
+    const isNft = summary.type !== TokenType.ERC20;
+
+    const bucketLabel = (start: number) => (bucketing === "minute" ? fmtTime(start) : `Block ${start}`);
+    const mintLabels = stats.series.map(p => `${bucketLabel(p.start)}: ${p.mints} mints`);
+    const supplyLabels = stats.series.map(p => `${bucketLabel(p.start)}: ${p.supply.toLocaleString()} supply`);
+    const perBucket = stats.series.length > 1 ? stats.series[1].start - stats.series[0].start : bucketing === "minute" ? 60 : 1;
+    const bucketSize = bucketing === "minute" ? `${perBucket / 60} min` : `${perBucket} block${perBucket === 1 ? "" : "s"}`;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <button onClick={onBack} className="text-sm text-amber-400 hover:underline">← Back to all contracts</button>
+                    <h2 className="mt-2 text-2xl font-semibold text-white flex items-center gap-3">
+                        <span className="truncate">{summary.name || "Unknown"} {summary.symbol ? `(${summary.symbol})` : ""}</span>
+                        <span>{getTypePill(summary.type)}{getRiskBadges(riskFlags, riskVerdict)}</span>
+                    </h2>
+                    <a href={`${network.explorerUrl}/address/${summary.address}`} target="_blank" rel="noopener noreferrer" className="font-mono text-sm text-gray-400 hover:text-amber-400 hover:underline break-all">
+                        {summary.address}
+                    </a>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onToggleWatch}
+                        title="Watched collections can trigger velocity alerts"
+                        className={`px-4 py-2 rounded-lg transition-all ${watched ? "bg-amber-500/20 text-amber-300 hover:bg-amber-500/30" : "bg-gray-700 text-white hover:bg-gray-600"}`}
+                    >
+                        {watched ? "Watching" : "Watch"}
+                    </button>
+                    <button onClick={onShowMints} className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">Show mints</button>
+                    {isNft && (
+                        <a href={nfts2meUrl(network, summary.address)} target="_blank" rel="noopener noreferrer" className="px-4 py-2 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-500 transition-all">
+                            Open on nfts2.me
+                        </a>
+                    )}
+                </div>
+            </div>
+
+            <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+                <div className="space-y-1">
+                    <div className="font-medium text-gray-400">Spam check</div>
+                    {riskVerdict ? (
+                        <p className="text-gray-300">You marked this collection as {riskVerdict === "denied" ? "spam" : "safe"}; the heuristics are ignored.</p>
+                    ) : riskFlags?.length ? (
+                        <ul className="text-orange-300 list-disc list-inside">
+                            {riskFlags.map(f => <li key={f}>{RISK_FLAGS[f].description}</li>)}
+                        </ul>
+                    ) : (
+                        <p className="text-gray-500">No spam or bot heuristics tripped by the buffered mints.</p>
+                    )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    {riskVerdict !== "allowed" && (
+                        <button onClick={() => onRiskVerdict("allowed")} className="px-3 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">Mark safe</button>
+                    )}
+                    {riskVerdict !== "denied" && (
+                        <button onClick={() => onRiskVerdict("denied")} className="px-3 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-red-600 transition-all">Mark spam</button>
+                    )}
+                    {riskVerdict && (
+                        <button onClick={() => onRiskVerdict(null)} className="px-3 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">Reset</button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <StatCard label="Mint events" value={stats.mints.toLocaleString()} />
+                <StatCard label="Supply minted" value={stats.supply.toLocaleString()} />
+                <StatCard label="Unique minters" value={stats.uniqueMinters.toLocaleString()} />
+                <StatCard label="Top 10 share" value={`${(stats.top10Share * 100).toFixed(1)}%`} />
+                <StatCard
+                    label="Avg mint price"
+                    value={stats.avgPrice === null ? "-" : `${Number(ethers.formatEther(stats.avgPrice)).toPrecision(4)} ${symbol}`}
+                    hint={stats.pricedMints < stats.mints ? `${stats.pricedMints} of ${stats.mints} mints priced` : undefined}
+                />
+                <StatCard
+                    label="Blocks"
+                    value={stats.firstBlock === undefined ? "-" : `${stats.firstBlock}–${stats.lastBlock}`}
+                />
+                <StatCard
+                    label="Circulating"
+                    value={summary.type === TokenType.ERC20 ? formatAmount(summary.circulatingSupply.toString(), summary.decimals) : summary.circulatingSupply.toLocaleString()}
+                    hint={summary.burnEvents ? `${summary.burnEvents} burns` : undefined}
+                />
+                <StatCard label="Holders" value={summary.holders.toLocaleString()} />
+            </div>
+
+            <section className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 space-y-6">
+                <div className="flex items-center justify-between gap-4">
+                    <h3 className="text-lg font-semibold text-gray-200">Mint velocity <span className="text-sm text-gray-500">per {bucketSize}</span></h3>
+                    <div className="flex rounded-lg bg-gray-900 p-1 text-sm">
+                        {(["minute", "block"] as Bucketing[]).map(b => (
+                            <button key={b} onClick={() => setBucketing(b)}
+                                className={`px-3 py-1 rounded-md ${bucketing === b ? "bg-gray-700 text-white" : "text-gray-400 hover:text-white"}`}
+                            >
+                                {b === "minute" ? "Per minute" : "Per block"}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {stats.series.length === 0 ? (
+                    <p className="text-sm text-gray-500">No timed mints yet.</p>
+                ) : (
+                    <>
+                        <BarChart values={stats.series.map(p => p.mints)} labels={mintLabels} color="text-amber-400" />
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-200 mb-2">Cumulative supply</h3>
+                            <LineChart values={stats.series.map(p => p.supply)} labels={supplyLabels} color="text-teal-400" />
+                        </div>
+                    </>
+                )}
+            </section>
+
+            <section>
+                <h3 className="text-lg font-semibold text-gray-200 mb-3">Top minters</h3>
+                <div className="overflow-x-auto rounded-xl border border-gray-700 bg-gray-800/50">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-900/70">
+                            <tr className="text-left text-gray-400">
+                                <th className="px-4 py-3 font-medium">Wallet</th>
+                                <th className="px-4 py-3 font-medium text-right">Mints</th>
+                                <th className="px-4 py-3 font-medium text-right">Share</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {stats.topMinters.length === 0 ? (
+                                <tr><td className="px-4 py-4 text-center text-gray-500" colSpan={3}>No mints yet.</td></tr>
+                            ) : (
+                                stats.topMinters.map(m => (
+                                    <tr key={m.address}>
+                                        <td className="px-4 py-3 font-mono">
+                                            <a href={`${network.explorerUrl}/address/${m.address}`} target="_blank" rel="noopener noreferrer" className="text-gray-300 hover:text-amber-400 hover:underline">
+                                                <span className="hidden md:inline">{m.address}</span>
+                                                <span className="md:hidden">{shortenAddress(m.address)}</span>
+                                            </a>
+                                        </td>
+                                        <td className="px-4 py-3 font-mono text-right text-white">{m.count}</td>
+                                        <td className="px-4 py-3 font-mono text-right text-gray-400">{((m.count / stats.mints) * 100).toFixed(1)}%</td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        </div>
+    );
+};
+
+export default CollectionPage;
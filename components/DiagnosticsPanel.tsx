@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from "react";
+import { NetworkConfig, RpcSettings } from '../types';
+import { RpcPool, PoolStats, redactUrl } from '../core/rpcPool';
+import { ConnectionState } from '../core/connection';
+
+type Props = {
+    network: NetworkConfig;
+    pool: RpcPool | null;
+    wsUrl: string | null;
+    wsState: ConnectionState;
+    settings: RpcSettings;
+    onChange: (next: RpcSettings) => void;
+};
+
+const STATS_REFRESH_MS = 1000;
+
+const inputClass = "px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white";
+
+const parseUrls = (text: string) => text.split(/[\s,]+/).map(u => u.trim()).filter(Boolean);
+
+function invalidUrls(urls: string[], protocols: string[]): string[] {
+    return urls.filter(u => {
+        try {
+            return !protocols.includes(new URL(u).protocol);
+        } catch {
+            return true;
+        }
+    });
+}
+
+const DiagnosticsPanel: React.FC<Props> = ({ network, pool, wsUrl, wsState, settings, onChange }) => {
+    const [stats, setStats] = useState<PoolStats | null>(null);
+    const [httpDraft, setHttpDraft] = useState(settings.httpUrls.join("\n"));
+    const [wsDraft, setWsDraft] = useState(settings.wsUrls.join("\n"));
+    const [maxRps, setMaxRps] = useState(String(settings.maxRps));
+    const [maxConcurrency, setMaxConcurrency] = useState(String(settings.maxConcurrency));
+
+    useEffect(() => {
+        setHttpDraft(settings.httpUrls.join("\n"));
+        setWsDraft(settings.wsUrls.join("\n"));
+        setMaxRps(String(settings.maxRps));
+        setMaxConcurrency(String(settings.maxConcurrency));
+    }, [settings]);
+
+    useEffect(() => {
+        if (!pool) {
+            setStats(null);
+            return;
+        }
+        setStats(pool.stats());
+        const timer = setInterval(() => setStats(pool.stats()), STATS_REFRESH_MS);
+        return () => clearInterval(timer);
+    }, [pool]);
+
+    const httpUrls = parseUrls(httpDraft);
+    const wsUrls = parseUrls(wsDraft);
+    const badUrls = [...invalidUrls(httpUrls, ["http:", "https:"]), ...invalidUrls(wsUrls, ["ws:", "wss:"])];
+    const rps = Number(maxRps);
+    const concurrency = Number(maxConcurrency);
+    const limitsValid = Number.isInteger(rps) && rps >= 0 && Number.isInteger(concurrency) && concurrency >= 0;
+    const dirty = httpUrls.join("\n") !== settings.httpUrls.join("\n") || wsUrls.join("\n") !== settings.wsUrls.join("\n")
+        || rps !== settings.maxRps || concurrency !== settings.maxConcurrency;
+
+    const save = () => onChange({ httpUrls, wsUrls, maxRps: rps, maxConcurrency: concurrency });
+
+    return (
+        <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-4 shadow-lg space-y-4 text-sm">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-xl font-semibold text-gray-200">RPC diagnostics</h2>
+                {stats && (
+                    <span className="text-gray-400">
+                        {stats.requests} requests · {stats.retries} retries · {stats.failovers} failovers · <span className={stats.failed ? "text-red-300" : ""}>{stats.failed} failed</span>
+                    </span>
+                )}
+            </div>
+
+            <div className="overflow-x-auto rounded-xl border border-gray-700">
+                <table className="min-w-full">
+                    <thead className="bg-gray-900/70">
+                        <tr className="text-left text-gray-400">
+                            <th className="px-4 py-2 font-medium">HTTP endpoint</th>
+                            <th className="px-4 py-2 font-medium">Status</th>
+                            <th className="px-4 py-2 font-medium text-right">Requests</th>
+                            <th className="px-4 py-2 font-medium text-right">Errors</th>
+                            <th className="px-4 py-2 font-medium text-right">429s</th>
+                            <th className="px-4 py-2 font-medium text-right">In flight</th>
+                            <th className="px-4 py-2 font-medium text-right">Avg latency</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {!stats ? (
+                            <tr><td className="px-4 py-3 text-center text-gray-500" colSpan={7}>No provider yet.</td></tr>
+                        ) : stats.endpoints.map((e, i) => (
+                            <tr key={i}>
+                                <td className="px-4 py-2 font-mono text-gray-300">{e.url}</td>
+                                <td className="px-4 py-2" title={e.lastError ?? undefined}>
+                                    {e.coolingDownMs > 0
+                                        ? <span className="text-amber-300">Cooling down {Math.ceil(e.coolingDownMs / 1000)}s</span>
+                                        : <span className="text-emerald-400">OK</span>}
+                                    {e.lastError && <span className="ml-2 text-xs text-gray-500 truncate">last error: {e.lastError}</span>}
+                                </td>
+                                <td className="px-4 py-2 font-mono text-right text-white">{e.requests}</td>
+                                <td className="px-4 py-2 font-mono text-right text-white">{e.errors}</td>
+                                <td className="px-4 py-2 font-mono text-right text-white">{e.rateLimited}</td>
+                                <td className="px-4 py-2 font-mono text-right text-white">{e.inFlight}</td>
+                                <td className="px-4 py-2 font-mono text-right text-white">{e.avgLatencyMs === null ? "-" : `${e.avgLatencyMs} ms`}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="text-gray-400">
+                WebSocket: {wsUrl ? <><span className="font-mono text-gray-300">{redactUrl(wsUrl)}</span> ({wsState})</> : "none configured"}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+                <label className="space-y-2 block">
+                    <div className="font-medium text-gray-400">Extra HTTP endpoints for {network.name}</div>
+                    <textarea value={httpDraft} onChange={(e) => setHttpDraft(e.target.value)} rows={3} placeholder="https://..." className={`w-full ${inputClass}`} />
+                </label>
+                <label className="space-y-2 block">
+                    <div className="font-medium text-gray-400">Extra WebSocket endpoints</div>
+                    <textarea value={wsDraft} onChange={(e) => setWsDraft(e.target.value)} rows={3} placeholder="wss://..." className={`w-full ${inputClass}`} />
+                </label>
+            </div>
+            <p className="text-xs text-gray-500">
+                One URL per line, used before the network's own endpoints and kept in this browser only. The table above hides URL paths, where providers put API keys.
+            </p>
+            <div className="flex flex-wrap items-center gap-3 text-gray-300">
+                <label className="flex items-center gap-2">
+                    Requests/s per endpoint
+                    <input type="number" min={0} value={maxRps} onChange={(e) => setMaxRps(e.target.value)} className={`w-20 ${inputClass}`} />
+                </label>
+                <label className="flex items-center gap-2">
+                    Concurrent requests per endpoint
+                    <input type="number" min={0} value={maxConcurrency} onChange={(e) => setMaxConcurrency(e.target.value)} className={`w-20 ${inputClass}`} />
+                </label>
+                <span className="text-xs text-gray-500">0 = unlimited</span>
+                <button onClick={save} disabled={!dirty || badUrls.length > 0 || !limitsValid} className="ml-auto px-4 py-1.5 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                    Apply
+                </button>
+            </div>
+            {badUrls.length > 0 && <div className="text-xs text-red-400">Not a valid endpoint: {badUrls.join(", ")}</div>}
+        </div>
+    );
+};
+
+export default DiagnosticsPanel;
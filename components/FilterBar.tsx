@@ -0,0 +1,70 @@
+import React from "react";
+import { TokenType } from '../types';
+import { MintFilters, RangeKind, EMPTY_FILTERS, isFiltered } from '../core/filters';
+
+const inputClass = "px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 text-sm text-white placeholder-gray-500";
+
+const FilterBar: React.FC<{ filters: MintFilters; onChange: (f: MintFilters) => void }> = ({ filters, onChange }) => {
+    const set = (patch: Partial<MintFilters>) => onChange({ ...filters, ...patch });
+    const toggleType = (t: TokenType) =>
+        set({ types: filters.types.includes(t) ? filters.types.filter(x => x !== t) : [...filters.types, t] });
+    const rangeInputType = filters.rangeKind === "block" ? "number" : "datetime-local";
+
+    return (
+        <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-4 shadow-lg flex flex-wrap items-center gap-3 text-sm">
+            <input
+                value={filters.contract}
+                onChange={(e) => set({ contract: e.target.value })}
+                placeholder="Contract address, name or symbol"
+                className={`${inputClass} w-64`}
+            />
+            <input
+                value={filters.recipient}
+                onChange={(e) => set({ recipient: e.target.value })}
+                placeholder="Recipient address"
+                className={`${inputClass} w-56 font-mono`}
+            />
+            <div className="flex items-center gap-3 text-gray-400">
+                {Object.values(TokenType).map(t => (
+                    <label key={t} className="flex items-center gap-1.5">
+                        <input type="checkbox" checked={filters.types.includes(t)} onChange={() => toggleType(t)} />
+                        {t}
+                    </label>
+                ))}
+            </div>
+            <div className="flex items-center gap-2">
+                <select
+                    value={filters.rangeKind}
+                    onChange={(e) => set({ rangeKind: e.target.value as RangeKind, rangeFrom: "", rangeTo: "" })}
+                    className={inputClass}
+                >
+                    <option value="block">Blocks</option>
+                    <option value="time">Time</option>
+                </select>
+                <input type={rangeInputType} value={filters.rangeFrom} onChange={(e) => set({ rangeFrom: e.target.value })} placeholder="From" className={`${inputClass} w-44 font-mono`} />
+                <span className="text-gray-500">→</span>
+                <input type={rangeInputType} value={filters.rangeTo} onChange={(e) => set({ rangeTo: e.target.value })} placeholder="To" className={`${inputClass} w-44 font-mono`} />
+            </div>
+            <input
+                type="number"
+                min={0}
+                value={filters.minAmount}
+                onChange={(e) => set({ minAmount: e.target.value })}
+                placeholder="Min amount"
+                title="Minimum amount for ERC-20 (token units) and ERC-1155"
+                className={`${inputClass} w-32 font-mono`}
+            />
+            <label className="flex items-center gap-1.5 text-gray-400" title="Hide collections flagged as likely spam or bot mints, or marked as spam">
+                <input type="checkbox" checked={filters.hideFlagged} onChange={(e) => set({ hideFlagged: e.target.checked })} />
+                Hide flagged
+            </label>
+            {isFiltered(filters) && (
+                <button onClick={() => onChange(EMPTY_FILTERS)} className="px-3 py-1.5 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default FilterBar;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { MintItem, ActivityItem, ContractMeta, NetworkConfig, TokenType } from '../types';
+import { TokenMetadataResolver } from '../core/tokenMetadata';
+import { RegistryEntry } from '../core/registry';
+import { TxBreakdown, fetchTxBreakdown } from '../core/txDetails';
+import { mintKey, isTransfer } from '../core/aggregator';
+import { nfts2meUrl } from '../networks';
+import { shortenAddress, formatAmount, fmtTime, getTypePill, getMatchBadge, getActivityBadge } from './format';
+import TokenDetails from './TokenDetails';
+
+type Props = {
+    item: ActivityItem;
+    network: NetworkConfig;
+    provider: ethers.Provider | null;
+    metaFor: (address: string) => ContractMeta | undefined;
+    registryFor: (address: string) => RegistryEntry | undefined;
+    resolver: TokenMetadataResolver | null;
+    onSelect: (item: MintItem) => void;
+    onClose: () => void;
+};
+
+type TxState =
+    | { status: "loading" }
+    | { status: "ready"; tx: TxBreakdown }
+    | { status: "failed"; message: string };
+
+const describeMint = (it: MintItem, meta?: ContractMeta) => {
+    if (it.type === TokenType.ERC721) return `ID: ${it.tokenId}`;
+    if (it.type === TokenType.ERC20) return `Amount: ${formatAmount(it.amount, meta?.decimals)}`;
+    return `ID: ${it.tokenId}, Amt: ${it.amount}`;
+};
+
+const describeMatch = (item: MintItem, entry?: RegistryEntry) => {
+    if (item.matchedBy === "minter") return "Transaction sent to the NFTS2ME minter";
+    if (!entry) return "Known NFTS2ME collection";
+    return entry.source === "factory"
+        ? `Created by factory ${shortenAddress(entry.via)}${entry.blockNumber !== undefined ? ` at block ${entry.blockNumber}` : ""}`
+        : `Proxy of NFTS2ME implementation ${shortenAddress(entry.via)}`;
+};
+
+const MintDrawer: React.FC<Props> = ({ item, network, provider, metaFor, registryFor, resolver, onSelect, onClose }) => {
+    const [txState, setTxState] = useState<TxState>({ status: "loading" });
+    const meta = metaFor(item.contract);
+    const symbol = network.nativeSymbol ?? "ETH";
+    const isNft = item.type === TokenType.ERC721 || item.type === TokenType.ERC1155;
+    const explorer = network.explorerUrl;
+
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+        window.addEventListener("keydown", onKey);
+        return () => window.removeEventListener("keydown", onKey);
+    }, [onClose]);
+
+    useEffect(() => {
+        if (!provider) {
+            setTxState({ status: "failed", message: "No RPC provider available." });
+            return;
+        }
+        let cancelled = false;
+        setTxState({ status: "loading" });
+        fetchTxBreakdown(provider, item.txHash)
+            .then(tx => { if (!cancelled) setTxState({ status: "ready", tx }); })
+            .catch((e: any) => {
+                console.error("Failed to load transaction:", e);
+                if (!cancelled) setTxState({ status: "failed", message: e?.shortMessage || e?.message || "Unknown error" });
+            });
+        return () => { cancelled = true; };
+    }, [provider, item.txHash]);
+
+    const tx = txState.status === "ready" ? txState.tx : null;
+    const currentKey = mintKey(item);
+    const transfer = isTransfer(item) ? item : null;
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end">
+            <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+            <aside className="relative w-full max-w-md h-full overflow-y-auto bg-gray-900 border-l border-gray-700 shadow-2xl p-6 space-y-5">
+                <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                        <div className="text-sm text-gray-400 truncate">{meta?.name || item.contract}</div>
+                        <div className="mt-1 flex items-center gap-2">
+                            {getTypePill(item.type)}
+                            {transfer && getActivityBadge(transfer.kind)}
+                            <span className="font-mono text-amber-300 truncate">{describeMint(item, meta)}</span>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="px-3 py-1 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700">✕</button>
+                </div>
+
+                {isNft && (
+                    <a
+                        href={nfts2meUrl(network, item.contract)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block text-center px-4 py-2 rounded-lg bg-amber-600 text-white font-semibold shadow-md hover:bg-amber-500 transition-all"
+                    >
+                        Open on nfts2.me
+                    </a>
+                )}
+
+                <dl className="text-sm grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+                    <dt className="text-gray-500">Tx hash</dt>
+                    <dd className="font-mono break-all">
+                        <a href={`${explorer}/tx/${item.txHash}`} target="_blank" rel="noopener noreferrer" className="text-gray-300 hover:text-amber-400 hover:underline">{item.txHash}</a>
+                    </dd>
+                    <dt className="text-gray-500">Block</dt>
+                    <dd className="font-mono">
+                        <a href={`${explorer}/block/${item.blockNumber}`} target="_blank" rel="noopener noreferrer" className="text-gray-300 hover:text-amber-400 hover:underline">{item.blockNumber}</a>
+                        <span className="text-gray-500"> · {fmtTime(item.timestamp)}</span>
+                    </dd>
+                    <dt className="text-gray-500">Contract</dt>
+                    <dd className="font-mono text-gray-300 break-all">{item.contract}</dd>
+                    {!isTransfer(item) && item.matchedBy && (
+                        <>
+                            <dt className="text-gray-500">Matched by</dt>
+                            <dd className="text-gray-300">{getMatchBadge(item.matchedBy)} {describeMatch(item, registryFor(item.contract))}</dd>
+                        </>
+                    )}
+                    {transfer && (
+                        <>
+                            <dt className="text-gray-500">From</dt>
+                            <dd className="font-mono text-gray-300 break-all">{transfer.from}</dd>
+                        </>
+                    )}
+                    <dt className="text-gray-500">Recipient</dt>
+                    <dd className="font-mono text-gray-300 break-all">{item.to}</dd>
+                    <dt className="text-gray-500">Sender</dt>
+                    <dd className="font-mono text-gray-300 break-all">
+                        {tx ? tx.from : "…"}
+                        {tx && tx.from.toLowerCase() !== item.to.toLowerCase() && (
+                            <span className="ml-2 text-xs text-amber-400">differs from recipient</span>
+                        )}
+                    </dd>
+                    {tx && (
+                        <>
+                            <dt className="text-gray-500">Value</dt>
+                            <dd className="font-mono text-gray-300">{ethers.formatEther(tx.value)} {symbol}</dd>
+                            <dt className="text-gray-500">Gas used</dt>
+                            <dd className="font-mono text-gray-300">{tx.gasUsed !== undefined ? tx.gasUsed.toString() : "-"}</dd>
+                            <dt className="text-gray-500">Gas price</dt>
+                            <dd className="font-mono text-gray-300">{tx.effectiveGasPrice !== undefined ? `${ethers.formatUnits(tx.effectiveGasPrice, "gwei")} gwei` : "-"}</dd>
+                            <dt className="text-gray-500">Fee</dt>
+                            <dd className="font-mono text-gray-300">{tx.fee !== undefined ? `${ethers.formatEther(tx.fee)} ${symbol}` : "-"}</dd>
+                            {tx.status === 0 && (
+                                <>
+                                    <dt className="text-gray-500">Status</dt>
+                                    <dd className="text-red-400">Reverted</dd>
+                                </>
+                            )}
+                        </>
+                    )}
+                </dl>
+
+                {txState.status === "loading" && <p className="text-sm text-gray-500 animate-pulse">Loading transaction…</p>}
+                {txState.status === "failed" && <p className="text-sm text-red-400">Transaction details could not be loaded: {txState.message}</p>}
+
+                {tx && (
+                    <section>
+                        <h4 className="text-sm font-medium text-gray-400 mb-2">Mints in this transaction ({tx.mints.length})</h4>
+                        <ul className="space-y-1">
+                            {tx.mints.map(m => {
+                                const isCurrent = mintKey(m) === currentKey;
+                                const mMeta = metaFor(m.contract);
+                                return (
+                                    <li key={mintKey(m)}>
+                                        <button
+                                            onClick={() => onSelect({ ...m, timestamp: item.timestamp })}
+                                            disabled={isCurrent}
+                                            className={`w-full flex items-center gap-2 rounded-lg px-3 py-2 text-left text-sm border ${isCurrent ? "bg-amber-500/10 border-amber-500/40" : "bg-gray-800 border-gray-700 hover:bg-gray-700"}`}
+                                        >
+                                            {getTypePill(m.type)}
+                                            <span className="text-white truncate">{mMeta?.name || shortenAddress(m.contract)}</span>
+                                            <span className="font-mono text-amber-300 truncate">{describeMint(m, mMeta)}</span>
+                                            <span className="ml-auto font-mono text-gray-400">{shortenAddress(m.to)}</span>
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </section>
+                )}
+
+                {isNft && <TokenDetails item={item} resolver={resolver} />}
+            </aside>
+        </div>
+    );
+};
+
+export default MintDrawer;
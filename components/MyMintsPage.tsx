@@ -0,0 +1,224 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { MintItem, ContractMeta, NetworkConfig, TokenType } from '../types';
+import { WALLET_BACKFILL_BLOCKS } from '../constants';
+import { Holding } from '../core/portfolio';
+import { TokenMetadataResolver } from '../core/tokenMetadata';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { mintKey } from '../core/aggregator';
+import { shortenAddress, formatAmount, fmtTime, getTypePill } from './format';
+import { TokenImage, TokenPlaceholder } from './TokenThumb';
+
+export type HoldingsState =
+    | { status: "idle" }
+    | { status: "loading" }
+    | { status: "ready"; list: Holding[] }
+    | { status: "failed"; message: string };
+
+type Props = {
+    address: string | null;
+    network: NetworkConfig;
+    canConnect: boolean; // an injected wallet is available
+    connected: boolean; // `address` came from the injected wallet
+    walletChainId: number | null;
+    items: MintItem[]; // mints to `address` from the buffer, newest first
+    holdings: HoldingsState;
+    metaFor: (address: string) => ContractMeta | undefined;
+    resolver: TokenMetadataResolver | null;
+    latestBlock: number | null;
+    backfill: { done: number; total: number } | null;
+    onConnect: () => void;
+    onDisconnect: () => void;
+    onSetAddress: (address: string) => void;
+    onSwitchChain: () => void;
+    onBackfill: (from: number, to: number) => void;
+    onCancelBackfill: () => void;
+    onRefreshHoldings: () => void;
+    onShowMints: () => void;
+    onOpen: (item: MintItem) => void;
+    onBack: () => void;
+};
+
+const HoldingCard: React.FC<{ holding: Holding; meta?: ContractMeta; resolver: TokenMetadataResolver | null }> = ({ holding, meta, resolver }) => {
+    const state = useTokenMetadata(resolver, holding.contract, holding.type, holding.tokenId);
+    const name = state.status === "ready" && state.metadata.name ? state.metadata.name : holding.tokenId !== undefined ? `#${holding.tokenId}` : meta?.symbol ?? "Tokens";
+    return (
+        <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-3 space-y-2">
+            {state.status === "ready"
+                ? <TokenImage src={state.metadata.image} alt={name} className="w-full aspect-square" />
+                : <TokenPlaceholder className="w-full aspect-square" pulse={state.status === "loading"} />}
+            <div className="text-sm text-white truncate" title={name}>{name}</div>
+            <div className="text-xs text-gray-400 truncate">{meta?.name || shortenAddress(holding.contract)}</div>
+            <div className="flex items-center justify-between gap-2">
+                {getTypePill(holding.type)}
+                {holding.type !== TokenType.ERC721 && (
+                    <span className="font-mono text-xs text-amber-300 truncate">
+                        ×{holding.type === TokenType.ERC20 ? formatAmount(holding.balance.toString(), meta?.decimals) : holding.balance.toString()}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const MyMintsPage: React.FC<Props> = ({
+    address, network, canConnect, connected, walletChainId, items, holdings, metaFor, resolver, latestBlock, backfill,
+    onConnect, onDisconnect, onSetAddress, onSwitchChain, onBackfill, onCancelBackfill, onRefreshHoldings, onShowMints, onOpen, onBack,
+}) => {
+    const [draft, setDraft] = useState("");
+    const [fromBlock, setFromBlock] = useState("");
+    const [toBlock, setToBlock] = useState("");
+    const draftValid = ethers.isAddress(draft.trim());
+    const defaultFrom = latestBlock !== null ? Math.max(0, latestBlock - WALLET_BACKFILL_BLOCKS + 1) : null;
+
+    const startBackfill = () => {
+        if (latestBlock === null) return;
+        const to = toBlock.trim() === "" ? latestBlock : Number(toBlock);
+        const from = fromBlock.trim() === "" ? Math.max(0, to - WALLET_BACKFILL_BLOCKS + 1) : Number(fromBlock);
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || from > to) return;
+        onBackfill(from, to);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <button onClick={onBack} className="text-sm text-amber-400 hover:underline">← Back to all contracts</button>
+                    <h2 className="mt-2 text-2xl font-semibold text-white">My mints</h2>
+                    {address && (
+                        <a href={`${network.explorerUrl}/address/${address}`} target="_blank" rel="noopener noreferrer" className="font-mono text-sm text-gray-400 hover:text-amber-400 hover:underline break-all">
+                            {address}
+                        </a>
+                    )}
+                </div>
+                {address && (
+                    <div className="flex gap-2">
+                        <button onClick={onShowMints} className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600 transition-all">Show in mint table</button>
+                        <button onClick={onDisconnect} className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-red-600 transition-all">{connected ? "Disconnect" : "Forget address"}</button>
+                    </div>
+                )}
+            </div>
+
+            {!address && (
+                <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 flex flex-col sm:flex-row items-center gap-3 text-sm">
+                    {canConnect && (
+                        <>
+                            <button onClick={onConnect} className="px-4 py-2 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-500 transition-all">Connect wallet</button>
+                            <span className="text-gray-500">or</span>
+                        </>
+                    )}
+                    <input
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder="Paste a wallet address (0x...)"
+                        className={`w-96 max-w-full px-3 py-2 rounded-lg bg-gray-900 border font-mono text-white ${draft && !draftValid ? "border-red-600" : "border-gray-700"}`}
+                    />
+                    <button onClick={() => onSetAddress(ethers.getAddress(draft.trim()))} disabled={!draftValid} className="px-4 py-2 rounded-lg bg-gray-700 text-white hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                        View
+                    </button>
+                </div>
+            )}
+
+            {connected && walletChainId !== null && walletChainId !== network.chainId && (
+                <div className="p-3 rounded-lg bg-amber-900/30 border border-amber-700 text-amber-200 text-sm flex flex-col sm:flex-row items-center justify-between gap-3">
+                    <span>Your wallet is on chain <span className="font-mono">{walletChainId}</span>, not {network.name} (<span className="font-mono">{network.chainId}</span>).</span>
+                    <button onClick={onSwitchChain} className="px-4 py-1.5 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-500 transition-all">Switch to {network.name}</button>
+                </div>
+            )}
+
+            {address && (
+                <>
+                    <div className="rounded-xl border border-gray-700 bg-gray-800/50 p-4 space-y-3 text-sm">
+                        <div className="flex flex-col sm:flex-row items-center gap-3">
+                            <span className="font-medium text-gray-400">Backfill mints to this wallet:</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={fromBlock}
+                                onChange={(e) => setFromBlock(e.target.value)}
+                                placeholder={defaultFrom !== null ? String(defaultFrom) : "From block"}
+                                disabled={!!backfill}
+                                className="w-36 px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white disabled:opacity-50"
+                            />
+                            <span className="text-gray-500">→</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={toBlock}
+                                onChange={(e) => setToBlock(e.target.value)}
+                                placeholder={latestBlock !== null ? String(latestBlock) : "To block"}
+                                disabled={!!backfill}
+                                className="w-36 px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 font-mono text-white disabled:opacity-50"
+                            />
+                            {!backfill ? (
+                                <button onClick={startBackfill} disabled={latestBlock === null} className="px-4 py-2 rounded-lg bg-gray-700 text-white font-semibold hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all">Backfill</button>
+                            ) : (
+                                <button onClick={onCancelBackfill} className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-500 transition-all">Cancel</button>
+                            )}
+                        </div>
+                        {backfill && (
+                            <div>
+                                <div className="h-2 rounded-full bg-gray-900 overflow-hidden">
+                                    <div className="h-full bg-amber-500 transition-all" style={{ width: `${backfill.total ? (backfill.done / backfill.total) * 100 : 100}%` }} />
+                                </div>
+                                <div className="mt-1 text-xs text-gray-500 font-mono">{backfill.done} / {backfill.total} blocks</div>
+                            </div>
+                        )}
+                    </div>
+
+                    <section>
+                        <div className="flex items-center justify-between gap-4 mb-3">
+                            <h3 className="text-lg font-semibold text-gray-200">Holdings</h3>
+                            <button onClick={onRefreshHoldings} disabled={holdings.status === "loading"} className="px-3 py-1 rounded-md text-xs bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50">Refresh</button>
+                        </div>
+                        {holdings.status === "loading" && <p className="text-sm text-gray-500">Checking balances on chain...</p>}
+                        {holdings.status === "failed" && <p className="text-sm text-red-300">{holdings.message}</p>}
+                        {holdings.status === "ready" && (holdings.list.length === 0 ? (
+                            <p className="text-sm text-gray-500">No NFTS2ME tokens held among the tracked collections.</p>
+                        ) : (
+                            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                                {holdings.list.map(h => (
+                                    <HoldingCard key={`${h.contract}:${h.tokenId ?? ""}`} holding={h} meta={metaFor(h.contract)} resolver={resolver} />
+                                ))}
+                            </div>
+                        ))}
+                    </section>
+
+                    <section>
+                        <h3 className="text-lg font-semibold text-gray-200 mb-3">Mints <span className="text-sm text-gray-500">{items.length}</span></h3>
+                        <div className="overflow-x-auto rounded-xl border border-gray-700 bg-gray-800/50">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-gray-900/70">
+                                    <tr className="text-left text-gray-400">
+                                        <th className="px-4 py-3 font-medium">Time</th>
+                                        <th className="px-4 py-3 font-medium">Type</th>
+                                        <th className="px-4 py-3 font-medium">Contract</th>
+                                        <th className="px-4 py-3 font-medium">Details</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-700">
+                                    {items.length === 0 ? (
+                                        <tr><td className="px-4 py-4 text-center text-gray-500" colSpan={4}>No mints to this wallet yet. Backfill its history or keep the live feed running.</td></tr>
+                                    ) : (
+                                        items.map(it => (
+                                            <tr key={mintKey(it)} onClick={() => onOpen(it)} className="hover:bg-gray-800/60 cursor-pointer">
+                                                <td className="px-4 py-3 text-gray-400 whitespace-nowrap">{fmtTime(it.timestamp)} <span className="text-gray-500">({it.blockNumber})</span></td>
+                                                <td className="px-4 py-3">{getTypePill(it.type)}</td>
+                                                <td className="px-4 py-3 text-white truncate max-w-[16rem]">{metaFor(it.contract)?.name || shortenAddress(it.contract)}</td>
+                                                <td className="px-4 py-3 font-mono text-amber-300">
+                                                    {it.type === TokenType.ERC20 ? `Amount: ${formatAmount(it.amount, metaFor(it.contract)?.decimals)}` : `ID: ${it.tokenId}${it.amount ? `, Amt: ${it.amount}` : ""}`}
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </section>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MyMintsPage;
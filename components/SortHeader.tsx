@@ -0,0 +1,26 @@
+import React from "react";
+import { SortState } from '../core/filters';
+
+type Props<K extends string> = {
+    label: string;
+    sortKey: K;
+    sort: SortState<K>;
+    onSort: (s: SortState<K>) => void;
+    className?: string;
+};
+
+// Clicking the active column flips direction; a new column starts descending
+function SortHeader<K extends string>({ label, sortKey, sort, onSort, className = "" }: Props<K>) {
+    const active = sort.key === sortKey;
+    const next: SortState<K> = { key: sortKey, dir: active && sort.dir === "desc" ? "asc" : "desc" };
+    return (
+        <th className={`px-4 py-3 font-medium ${className}`}>
+            <button onClick={() => onSort(next)} className={`inline-flex items-center gap-1 hover:text-white ${active ? "text-white" : ""}`}>
+                {label}
+                <span className="text-xs">{active ? (sort.dir === "desc" ? "▼" : "▲") : ""}</span>
+            </button>
+        </th>
+    );
+}
+
+export default SortHeader;
@@ -0,0 +1,34 @@
+import React from "react";
+import { MintItem } from '../types';
+import { Alert, AlertKind } from '../core/alerts';
+
+const ACCENT: Record<AlertKind, string> = {
+    "new-collection": "border-teal-500/60",
+    velocity: "border-amber-500/60",
+    wallet: "border-purple-500/60",
+};
+
+type Props = {
+    alerts: Alert[];
+    onDismiss: (id: number) => void;
+    onOpen: (item: MintItem) => void;
+};
+
+// Stack of in-app alert toasts in the bottom-right corner
+const Toasts: React.FC<Props> = ({ alerts, onDismiss, onOpen }) => (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+        {alerts.map(a => (
+            <div key={a.id} className={`rounded-xl border-l-4 ${ACCENT[a.kind]} bg-gray-800 border border-gray-700 shadow-xl p-3 text-sm`}>
+                <div className="flex items-start justify-between gap-2">
+                    <button onClick={() => { onOpen(a.item); onDismiss(a.id); }} className="text-left min-w-0">
+                        <div className="font-semibold text-white">{a.title}</div>
+                        <div className="text-gray-400 break-all">{a.message}</div>
+                    </button>
+                    <button onClick={() => onDismiss(a.id)} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
+export default Toasts;
@@ -0,0 +1,47 @@
+import React from "react";
+import { MintItem } from '../types';
+import { TokenMetadataResolver } from '../core/tokenMetadata';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { TokenImage, TokenPlaceholder } from './TokenThumb';
+
+type Props = {
+    item: MintItem;
+    resolver: TokenMetadataResolver | null;
+};
+
+// Image, description and attributes of a minted NFT, shown inside the mint drawer
+const TokenDetails: React.FC<Props> = ({ item, resolver }) => {
+    const state = useTokenMetadata(resolver, item.contract, item.type, item.tokenId);
+    const md = state.status === "ready" ? state.metadata : null;
+
+    return (
+        <section className="space-y-4">
+            <h4 className="text-lg font-semibold text-white break-all">{md?.name || `#${item.tokenId}`}</h4>
+
+            {state.status === "ready"
+                ? <TokenImage src={md?.image} alt={md?.name ?? `#${item.tokenId}`} className="w-full aspect-square" />
+                : <TokenPlaceholder className="w-full aspect-square" pulse={state.status === "loading"} />}
+
+            {state.status === "failed" && (
+                <p className="text-sm text-gray-500">Token metadata could not be resolved.</p>
+            )}
+            {md?.description && <p className="text-sm text-gray-300 whitespace-pre-line">{md.description}</p>}
+
+            {md && md.attributes.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-medium text-gray-400 mb-2">Attributes</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                        {md.attributes.map((a, i) => (
+                            <div key={i} className="rounded-lg bg-gray-800 border border-gray-700 px-3 py-2">
+                                <div className="text-xs text-gray-500 truncate">{a.trait_type ?? "Trait"}</div>
+                                <div className="text-sm text-white truncate">{String(a.value)}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default TokenDetails;
@@ -0,0 +1,36 @@
+import React, { useState } from "react";
+import { MintItem } from '../types';
+import { TokenMetadataResolver } from '../core/tokenMetadata';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+
+export const TokenPlaceholder: React.FC<{ className: string; pulse?: boolean }> = ({ className, pulse }) => (
+    <div className={`${className} rounded-md bg-gray-700/60 flex items-center justify-center text-gray-500 ${pulse ? "animate-pulse" : ""}`}>
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="h-1/2 w-1/2">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+    </div>
+);
+
+// Lazy-loaded image that falls back to the placeholder when the URL does not load
+export const TokenImage: React.FC<{ src?: string; alt: string; className: string }> = ({ src, alt, className }) => {
+    const [broken, setBroken] = useState(false);
+    if (!src || broken) return <TokenPlaceholder className={className} />;
+    return <img src={src} alt={alt} loading="lazy" onError={() => setBroken(true)} className={`${className} rounded-md object-cover bg-gray-900`} />;
+};
+
+const TokenThumb: React.FC<{ item: MintItem; resolver: TokenMetadataResolver | null; onOpen: (item: MintItem) => void }> = ({ item, resolver, onOpen }) => {
+    const state = useTokenMetadata(resolver, item.contract, item.type, item.tokenId);
+    return (
+        <button
+            onClick={(e) => { e.stopPropagation(); onOpen(item); }}
+            title={state.status === "ready" ? state.metadata.name ?? "Token details" : "Token details"}
+            className="block"
+        >
+            {state.status === "ready"
+                ? <TokenImage src={state.metadata.image} alt={state.metadata.name ?? `#${item.tokenId}`} className="h-8 w-8" />
+                : <TokenPlaceholder className="h-8 w-8" pulse={state.status === "loading"} />}
+        </button>
+    );
+};
+
+export default TokenThumb;
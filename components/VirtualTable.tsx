@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from "react";
+
+// Rows must render at exactly this height (single-line cells) for the math to hold
+export const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 8;
+const PAGE_SIZE = 200;
+
+type Props<T> = {
+    header: React.ReactNode;
+    rowCount: number;
+    getRow: (index: number) => T;
+    renderRow: (row: T, index: number) => React.ReactNode;
+    emptyText: string;
+    colSpan: number;
+    resetKey?: unknown; // scroll back to the top when this changes (e.g. filters)
+};
+
+/**
+ * Table that only renders the rows in view. Rows are exposed a page at a time:
+ * scrolling near the end of what is loaded reveals the next page.
+ */
+function VirtualTable<T>({ header, rowCount, getRow, renderRow, emptyText, colSpan, resetKey }: Props<T>) {
+    const scroller = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [limit, setLimit] = useState(PAGE_SIZE);
+
+    useEffect(() => {
+        setLimit(PAGE_SIZE);
+        setScrollTop(0);
+        if (scroller.current) scroller.current.scrollTop = 0;
+    }, [resetKey]);
+
+    const loaded = Math.min(rowCount, limit);
+    const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const end = Math.min(loaded, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+    const onScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const top = e.currentTarget.scrollTop;
+        setScrollTop(top);
+        if (top + VIEWPORT_HEIGHT > (loaded - OVERSCAN * 2) * ROW_HEIGHT && limit < rowCount) {
+            setLimit(l => l + PAGE_SIZE);
+        }
+    };
+
+    const rows: React.ReactNode[] = [];
+    for (let i = start; i < end; i++) rows.push(renderRow(getRow(i), i));
+
+    return (
+        <div className="rounded-xl border border-gray-700 bg-gray-800/50">
+            <div ref={scroller} onScroll={onScroll} className="overflow-auto rounded-xl" style={{ maxHeight: VIEWPORT_HEIGHT }}>
+                <table className="min-w-full text-sm">
+                    <thead className="bg-gray-900 sticky top-0 z-10">{header}</thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {rowCount === 0 ? (
+                            <tr><td className="px-4 py-4 text-center text-gray-500" colSpan={colSpan}>{emptyText}</td></tr>
+                        ) : (
+                            <>
+                                {start > 0 && <tr style={{ height: start * ROW_HEIGHT }}><td colSpan={colSpan}></td></tr>}
+                                {rows}
+                                {end < loaded && <tr style={{ height: (loaded - end) * ROW_HEIGHT }}><td colSpan={colSpan}></td></tr>}
+                            </>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            {rowCount > 0 && (
+                <div className="px-4 py-2 text-xs text-gray-500 border-t border-gray-700">
+                    Showing {loaded.toLocaleString()} of {rowCount.toLocaleString()}
+                    {loaded < rowCount && " (scroll for more)"}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default VirtualTable;
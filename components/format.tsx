@@ -0,0 +1,74 @@
+import React from "react";
+import { ethers } from "ethers";
+import { TokenType, MatchRule, TransferKind } from '../types';
+import { RiskFlag, RiskVerdict, RISK_FLAGS } from '../core/risk';
+
+export const shortenAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export const formatAmount = (amountStr?: string, decimals?: number) => {
+  if (!amountStr) return 'N/A';
+  try {
+    return ethers.formatUnits(amountStr, decimals ?? 18);
+  } catch {
+    return amountStr;
+  }
+};
+
+export const fmtTime = (ts?: number) => {
+  if (!ts) return "-";
+  return new Date(ts * 1000).toLocaleString();
+};
+
+export const getTypePill = (type: TokenType) => {
+  const colors: Record<TokenType, string> = {
+    [TokenType.ERC20]: "bg-blue-500/20 text-blue-300",
+    [TokenType.ERC721]: "bg-purple-500/20 text-purple-300",
+    [TokenType.ERC1155]: "bg-teal-500/20 text-teal-300",
+  };
+  return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${colors[type]}`}>
+          {type}
+      </span>
+  );
+};
+
+// Which acceptance rule a mint passed; nothing for mints recorded before rules were tracked
+export const getMatchBadge = (rule?: MatchRule) => {
+  if (!rule) return null;
+  const title = rule === "minter"
+    ? "The transaction was sent to the NFTS2ME minter"
+    : "The contract is a known NFTS2ME collection";
+  return (
+      <span title={title} className={`ml-1 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded border ${rule === "minter" ? "border-gray-600 text-gray-400" : "border-teal-700 text-teal-300"}`}>
+          {rule}
+      </span>
+  );
+};
+
+// Spam heuristics a collection or mint tripped; a manual verdict replaces them
+export const getRiskBadges = (flags: readonly RiskFlag[] | undefined, verdict?: RiskVerdict) => {
+  if (verdict === "allowed") return null;
+  if (verdict === "denied") {
+    return (
+        <span title="Marked as spam" className="ml-1 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded border border-red-700 text-red-300">
+            spam
+        </span>
+    );
+  }
+  if (!flags?.length) return null;
+  return (
+      <>
+          {flags.map(f => (
+              <span key={f} title={RISK_FLAGS[f].description} className="ml-1 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded border border-orange-700 text-orange-300">
+                  {RISK_FLAGS[f].label}
+              </span>
+          ))}
+      </>
+  );
+};
+
+export const getActivityBadge = (kind: TransferKind) => (
+    <span className={`ml-1 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded border ${kind === "burn" ? "border-red-700 text-red-300" : "border-sky-700 text-sky-300"}`}>
+        {kind}
+    </span>
+);
@@ -1,11 +1,45 @@
 import { ethers } from "ethers";
 
-// --- Config: set via Vite env or fallback to provided endpoints ---
-export const WS_URL = (import.meta as any).env?.VITE_WS_MONAD_TESTNET || "wss://testnet-rpc.monad.xyz";
-export const HTTP_URL = (import.meta as any).env?.VITE_HTTP_MONAD_TESTNET || "https://cosmological-tame-resonance.monad-testnet.quiknode.pro/84ed94f365bde58e2b51be6d0f1c8fa3a8e0a932/";
+// --- Historical Scan ---
+export const DEFAULT_SCAN_BLOCKS = 1000; // default range ending at the latest block
+export const SCAN_INITIAL_CHUNK = 100; // blocks per getLogs request to start with
+export const SCAN_MAX_CHUNK = 1000; // chunk size never grows past this
+export const SCAN_CHUNK_ATTEMPTS = 4; // tries per chunk when its logs or lookups fail
+export const SCAN_RETRY_DELAY_MS = 1000; // doubled per retry of the same chunk
+export const WALLET_BACKFILL_BLOCKS = 100000; // default "My mints" history; wallet-filtered logs are sparse
+export const WALLET_SCAN_MAX_CHUNK = 10000;
+export const REGISTRY_BACKFILL_MAX_CHUNK = 10000; // factory creation events are sparse too
 
-// --- Network Constants ---
-export const CHAIN_ID = 10143; // Monad Testnet
+// --- Lookup Caching ---
+export const TX_CACHE_SIZE = 5000;
+export const BLOCK_CACHE_SIZE = 1000;
+export const REGISTRY_PROBE_CACHE_SIZE = 5000; // contracts already fingerprinted (hit or miss)
+export const LIVE_BATCH_DELAY_MS = 250; // live logs are collected this long before one batched lookup
+export const LIVE_RETRY_DELAY_MS = 2000; // before a live batch whose lookups failed is tried again
+
+// --- WebSocket Connection ---
+export const WS_HEARTBEAT_MS = 15000;
+export const WS_HEARTBEAT_TIMEOUT_MS = 10000;
+export const WS_BACKOFF_BASE_MS = 1000;
+export const WS_BACKOFF_MAX_MS = 30000;
+export const WS_DEGRADE_AFTER = 3; // failed reconnects before falling back to HTTP polling
+export const POLL_INTERVAL_MS = 5000;
+
+// --- RPC Provider Pool ---
+// Per-endpoint defaults; users can change them per network in the diagnostics panel
+export const RPC_MAX_RPS = Number((import.meta as any).env?.VITE_RPC_MAX_RPS) || 20;
+export const RPC_MAX_CONCURRENCY = Number((import.meta as any).env?.VITE_RPC_MAX_CONCURRENCY) || 8;
+export const RPC_MAX_ATTEMPTS = 4; // tries per request, across endpoints
+export const RPC_BACKOFF_BASE_MS = 500;
+export const RPC_BACKOFF_MAX_MS = 15000;
+export const RPC_REQUEST_TIMEOUT_MS = 20000;
+
+// --- In-memory Buffer ---
+export const MINT_BUFFER_CAP = Number((import.meta as any).env?.VITE_MINT_BUFFER_CAP) || 20000; // rows kept in memory
+export const SEEN_KEYS_CAP = MINT_BUFFER_CAP * 4; // dedupe window for scan/live overlap
+
+// --- HTTP Polling ---
+export const REORG_CHECK_DEPTH = 5; // recent block hashes re-checked on every poll
 
 // --- Ethers Constants ---
 export const ZERO_ADDR = ethers.ZeroAddress; // 0x0000...0000
@@ -18,6 +52,8 @@ export const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11
 export const TRANSFER_SINGLE_TOPIC = "0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62";
 // TransferBatch(address,address,address,uint255[],uint255[])
 export const TRANSFER_BATCH_TOPIC = "0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb";
+// Any of the three, for the topic[0] slot of a log filter
+export const MINT_LOG_TOPICS = [TRANSFER_TOPIC, TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC];
 
 // --- ABIs ---
 export const METADATA_ABI = [
@@ -26,7 +62,23 @@ export const METADATA_ABI = [
   "function decimals() view returns (uint8)",
 ];
 
-// --- Filter Contracts ---
-export const MINT_CONTRACT_WHITELIST = [
-  "0x00000000009a1E02f00E280dcfA4C81c55724212",
+export const TOKEN_URI_ABI = [
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function uri(uint256 id) view returns (string)",
 ];
+
+export const HOLDINGS_ABI = [
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function balanceOf(address owner, uint256 id) view returns (uint256)", // ERC-1155
+  "function balanceOf(address owner) view returns (uint256)", // ERC-20
+];
+
+// --- Token Metadata ---
+export const TOKEN_META_CACHE_SIZE = 2000;
+export const TOKEN_META_FETCH_TIMEOUT_MS = 10000;
+
+// --- Spam Heuristics ---
+export const RISK_BATCH_MINTS_PER_TX = 25; // tokens one tx mints through TransferBatch logs
+export const RISK_FAN_OUT_RECIPIENTS = 10; // distinct recipients one sender mints to
+export const RISK_REPEATED_TXS = 10; // identical mint txs from one sender
+export const RISK_HUGE_ERC20_TOKENS = 10n ** 12n; // whole tokens in a single ERC-20 mint
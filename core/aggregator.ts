@@ -0,0 +1,196 @@
+import { TokenType, MintItem, TransferItem, ActivityItem, CollSummary, ContractMeta } from '../types';
+
+// Stable identity of a mint; batch items share txHash+logIndex and differ by subIndex.
+export const mintKey = (it: MintItem) => `${it.txHash}-${it.logIndex}-${it.subIndex ?? 0}`;
+
+// Newest first: block, then log, then position within a batch log.
+export const compareMints = (a: MintItem, b: MintItem) =>
+  b.blockNumber - a.blockNumber || b.logIndex - a.logIndex || (b.subIndex ?? 0) - (a.subIndex ?? 0);
+
+export const isTransfer = (it: ActivityItem): it is TransferItem => "kind" in it;
+export const isMint = (it: ActivityItem): it is MintItem => !("kind" in it);
+
+// Oldest first, the order holdings must be replayed in
+const ascending = (a: MintItem, b: MintItem) => compareMints(b, a);
+
+// One token per ERC-721 event, the transferred amount otherwise
+const units = (it: MintItem) => (it.type === TokenType.ERC721 ? 1n : BigInt(it.amount ?? "0"));
+
+// A collection's tokenIds and owners, copied on its first change within one call so the
+// snapshot passed in is never mutated; `copiedBalances` lists the tokens whose balance
+// maps were copied as well.
+type Draft = { tokenIds: Set<string>; owners: CollSummary["owners"]; copiedBalances: Set<string> };
+
+function draftFor(drafts: Map<string, Draft>, addr: string, cur: CollSummary): Draft {
+  let draft = drafts.get(addr);
+  if (!draft) {
+    draft = { tokenIds: new Set(cur.tokenIds), owners: new Map(cur.owners), copiedBalances: new Set() };
+    drafts.set(addr, draft);
+  }
+  return draft;
+}
+
+/**
+ * Moves one event's units between holders (`null` is the zero address).
+ * A sender we never saw receive the token, e.g. minted before the tracked
+ * history, is treated as holding nothing rather than going negative.
+ */
+function moveHolding(draft: Draft, it: MintItem, from: string | null, to: string | null) {
+  const tokenId = it.tokenId ?? "";
+  const { owners } = draft;
+  // An ERC-721 token has exactly one owner, whoever we thought it was
+  const balances = it.type === TokenType.ERC721 ? new Map<string, bigint>()
+    : draft.copiedBalances.has(tokenId) ? owners.get(tokenId) ?? new Map<string, bigint>()
+    : new Map(owners.get(tokenId));
+  draft.copiedBalances.add(tokenId);
+  const amount = units(it);
+  if (from) {
+    const left = (balances.get(from) ?? 0n) - amount;
+    if (left > 0n) balances.set(from, left);
+    else balances.delete(from);
+  }
+  if (to) balances.set(to, (balances.get(to) ?? 0n) + amount);
+  if (balances.size > 0) owners.set(tokenId, balances);
+  else owners.delete(tokenId);
+}
+
+function countHolders(owners: CollSummary["owners"]): number {
+  const holders = new Set<string>();
+  owners.forEach(balances => balances.forEach((_, holder) => holders.add(holder)));
+  return holders.size;
+}
+
+export function emptySummary(item: MintItem, meta?: ContractMeta): CollSummary {
+  return {
+    address: item.contract,
+    type: item.type,
+    name: meta?.name,
+    symbol: meta?.symbol,
+    decimals: meta?.decimals,
+    totalMintEvents: 0,
+    uniqueTokens: 0,
+    tokenIds: new Set<string>(),
+    burnEvents: 0,
+    circulatingSupply: 0n,
+    holders: 0,
+    owners: new Map(),
+  };
+}
+
+/**
+ * Counts a batch of mints and transfers with a single copy of the summary map.
+ * Each touched collection's tokenIds and owners are copied once per call rather
+ * than per event, which made busy collections quadratic; `prev` is left as it was,
+ * so a React updater may safely run twice. Transfers of a collection with no
+ * counted mint have nothing to move and are skipped.
+ */
+export function applyActivity(
+  prev: Record<string, CollSummary>,
+  items: readonly ActivityItem[],
+  metaFor: (addr: string) => ContractMeta | undefined,
+): Record<string, CollSummary> {
+  if (items.length === 0) return prev;
+  const next = { ...prev };
+  const drafts = new Map<string, Draft>();
+  for (const item of [...items].sort(ascending)) {
+    const addr = item.contract;
+    if (isTransfer(item)) {
+      const cur = next[addr];
+      if (!cur) continue;
+      const burn = item.kind === "burn";
+      const draft = draftFor(drafts, addr, cur);
+      moveHolding(draft, item, item.from, burn ? null : item.to);
+      next[addr] = burn
+        ? { ...cur, owners: draft.owners, burnEvents: cur.burnEvents + 1, circulatingSupply: cur.circulatingSupply - units(item) }
+        : { ...cur, owners: draft.owners };
+    } else {
+      const cur = next[addr] || emptySummary(item, metaFor(addr));
+      const draft = draftFor(drafts, addr, cur);
+      if (item.tokenId) {
+        draft.tokenIds.add(item.tokenId);
+      }
+      moveHolding(draft, item, null, item.to);
+      next[addr] = {
+        ...cur,
+        tokenIds: draft.tokenIds,
+        owners: draft.owners,
+        uniqueTokens: draft.tokenIds.size,
+        totalMintEvents: cur.totalMintEvents + 1,
+        circulatingSupply: cur.circulatingSupply + units(item),
+      };
+    }
+  }
+  drafts.forEach((draft, addr) => (next[addr] = { ...next[addr], holders: countHolders(draft.owners) }));
+  return next;
+}
+
+/** Returns a new summary map with fetched metadata merged into an existing collection. */
+export function applyMeta(
+  prev: Record<string, CollSummary>,
+  addr: string,
+  meta: ContractMeta,
+): Record<string, CollSummary> {
+  const cur = prev[addr];
+  if (!cur) return prev;
+  return { ...prev, [addr]: { ...cur, ...meta } };
+}
+
+/**
+ * Returns a new summary map with `removed` (e.g. activity from orphaned blocks) un-counted.
+ * The removed items are undone newest first: mints give their units back, burns restore
+ * them to the sender and transfers move them back, so nothing is replayed from the
+ * bounded buffer. A token id is dropped once nobody holds it and no mint in `remaining`
+ * still carries it; collections left with no mints are dropped.
+ */
+export function retractActivity(
+  prev: Record<string, CollSummary>,
+  removed: readonly ActivityItem[],
+  remaining: readonly ActivityItem[] = [],
+): Record<string, CollSummary> {
+  if (removed.length === 0) return prev;
+  const next = { ...prev };
+  const stillMinted = new Set(remaining.filter(isMint).map(it => `${it.contract}:${it.tokenId}`));
+  const drafts = new Map<string, Draft>();
+  for (const item of [...removed].sort(compareMints)) {
+    const addr = item.contract;
+    const cur = next[addr];
+    if (!cur) continue;
+    if (isTransfer(item)) {
+      const burn = item.kind === "burn";
+      const draft = draftFor(drafts, addr, cur);
+      moveHolding(draft, item, burn ? null : item.to, item.from);
+      next[addr] = burn
+        ? { ...cur, owners: draft.owners, burnEvents: cur.burnEvents - 1, circulatingSupply: cur.circulatingSupply + units(item) }
+        : { ...cur, owners: draft.owners };
+    } else {
+      if (cur.totalMintEvents <= 1) {
+        delete next[addr];
+        drafts.delete(addr);
+        continue;
+      }
+      const draft = draftFor(drafts, addr, cur);
+      moveHolding(draft, item, item.to, null);
+      if (item.tokenId && !draft.owners.has(item.tokenId) && !stillMinted.has(`${addr}:${item.tokenId}`)) {
+        draft.tokenIds.delete(item.tokenId);
+      }
+      next[addr] = {
+        ...cur,
+        tokenIds: draft.tokenIds,
+        owners: draft.owners,
+        uniqueTokens: draft.tokenIds.size,
+        totalMintEvents: cur.totalMintEvents - 1,
+        circulatingSupply: cur.circulatingSupply - units(item),
+      };
+    }
+  }
+  drafts.forEach((draft, addr) => (next[addr] = { ...next[addr], holders: countHolders(draft.owners) }));
+  return next;
+}
+
+/** Builds the summary map from scratch, e.g. for history restored from storage. */
+export function buildSummaries(
+  items: readonly ActivityItem[],
+  metaFor: (addr: string) => ContractMeta | undefined,
+): Record<string, CollSummary> {
+  return applyActivity({}, items, metaFor);
+}
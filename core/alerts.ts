@@ -0,0 +1,112 @@
+import { AlertSettings, MintItem } from '../types';
+
+export type AlertKind = "new-collection" | "velocity" | "wallet";
+
+export type Alert = {
+  id: number;
+  kind: AlertKind;
+  title: string;
+  message: string;
+  item: MintItem; // the mint that triggered the rule
+};
+
+const lower = (list: readonly string[]) => new Set(list.map(a => a.trim().toLowerCase()).filter(Boolean));
+
+/**
+ * Evaluates alert rules against incoming mints. Every mint updates the rule
+ * state (known contracts, velocity windows), but alerts are only produced for
+ * `live` batches so scans and backfills of history stay quiet.
+ */
+export class AlertEngine {
+  private nextId = 1;
+  private known = new Set<string>();
+  private windows = new Map<string, number[]>(); // contract -> mint times (s), oldest first
+  private firing = new Set<string>(); // contracts currently above the velocity threshold
+  private contracts = new Set<string>();
+  private wallets = new Set<string>();
+
+  constructor(public settings: AlertSettings) {
+    this.configure(settings);
+  }
+
+  configure(settings: AlertSettings) {
+    this.settings = settings;
+    this.contracts = lower(settings.watchedContracts);
+    this.wallets = lower(settings.watchedWallets);
+  }
+
+  /** Marks contracts as already known, e.g. after restoring history. */
+  seed(items: readonly MintItem[]) {
+    for (const it of items) this.known.add(it.contract.toLowerCase());
+  }
+
+  reset() {
+    this.known.clear();
+    this.windows.clear();
+    this.firing.clear();
+  }
+
+  evaluate(items: readonly MintItem[], live: boolean): Alert[] {
+    const { newCollection, velocity, walletMints } = this.settings;
+    const alerts: Alert[] = [];
+    const emit = (kind: AlertKind, title: string, message: string, item: MintItem) => {
+      if (live) alerts.push({ id: this.nextId++, kind, title, message, item });
+    };
+
+    for (const it of items) {
+      const contract = it.contract.toLowerCase();
+      if (!this.known.has(contract)) {
+        this.known.add(contract);
+        if (newCollection) emit("new-collection", "New collection", `First mint seen from ${it.contract}`, it);
+      }
+
+      if (walletMints && this.wallets.has(it.to.toLowerCase())) {
+        emit("wallet", "Watched wallet minted", `${it.to} received a mint from ${it.contract}`, it);
+      }
+
+      if (velocity.enabled && velocity.mints > 0 && this.contracts.has(contract)) {
+        const now = it.timestamp ?? Math.floor(Date.now() / 1000);
+        const window = this.windows.get(contract) ?? [];
+        window.push(now);
+        const cutoff = now - velocity.minutes * 60;
+        while (window.length && window[0] <= cutoff) window.shift();
+        this.windows.set(contract, window);
+
+        // Fire once per crossing; re-arm when the rate drops back below the threshold
+        if (window.length >= velocity.mints) {
+          if (!this.firing.has(contract)) {
+            this.firing.add(contract);
+            emit("velocity", "Collection heating up", `${it.contract} passed ${velocity.mints} mints in ${velocity.minutes} min`, it);
+          }
+        } else {
+          this.firing.delete(contract);
+        }
+      }
+    }
+    return alerts;
+  }
+}
+
+/** Shows a browser notification when the user has granted permission. */
+export function notifyBrowser(alert: Alert) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  try {
+    new Notification(alert.title, { body: alert.message, tag: `${alert.kind}:${alert.item.contract}` });
+  } catch (e) {
+    console.error("Notification failed:", e);
+  }
+}
+
+/** POSTs the alert and its mint as JSON to a user-configured webhook. */
+export async function postWebhook(url: string, networkId: string, alert: Alert) {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind: alert.kind, title: alert.title, message: alert.message, network: networkId, mint: alert.item }),
+    });
+    if (!res.ok) console.error("Webhook responded with", res.status);
+  } catch (e) {
+    console.error("Webhook failed:", e);
+  }
+}
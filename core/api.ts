@@ -0,0 +1,132 @@
+import { TokenType, MintItem, CollSummary } from '../types';
+
+// Wire format shared by the CLI's HTTP server and the browser client.
+
+export const API_MAX_LIMIT = 1000;
+export const API_DEFAULT_LIMIT = 100;
+
+/** `GET /mints` parameters; field names mirror `MintItem`. */
+export type MintQuery = {
+  contract?: string;
+  to?: string;
+  type?: TokenType[];
+  tokenId?: string;
+  txHash?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  since?: number; // unix seconds, inclusive
+  until?: number;
+  order: "asc" | "desc"; // by chain position; desc (newest first) by default
+  offset: number;
+  limit: number;
+};
+
+export type MintPage = {
+  total: number;
+  offset: number;
+  limit: number;
+  items: MintItem[];
+};
+
+export type ApiStatus = {
+  network: string;
+  chainId: number;
+  lastBlock: number | null; // last block the server has fully processed
+};
+
+/** Window over a collection's per-token owners, which grow with every token minted. */
+export type OwnersPage = { offset: number; limit: number };
+
+// Sets, Maps and bigints are not JSON; token ids travel as an array, balances as decimal strings.
+// `owners` holds one page of tokens; `ownersTotal` counts every token that has holders.
+export type SummaryJson = Omit<CollSummary, "tokenIds" | "circulatingSupply" | "owners"> & {
+  tokenIds: string[];
+  circulatingSupply: string;
+  owners: Record<string, Record<string, string>>;
+  ownersTotal: number;
+};
+
+export const summaryToJson = (s: CollSummary, page: OwnersPage): SummaryJson => ({
+  ...s,
+  tokenIds: [...s.tokenIds],
+  circulatingSupply: s.circulatingSupply.toString(),
+  owners: Object.fromEntries([...s.owners].slice(page.offset, page.offset + page.limit).map(([id, balances]) =>
+    [id, Object.fromEntries([...balances].map(([holder, n]) => [holder, n.toString()]))])),
+  ownersTotal: s.owners.size,
+});
+
+export const summaryFromJson = ({ ownersTotal: _, ...s }: SummaryJson): CollSummary => ({
+  ...s,
+  tokenIds: new Set(s.tokenIds),
+  circulatingSupply: BigInt(s.circulatingSupply ?? "0"),
+  owners: new Map(Object.entries(s.owners ?? {}).map(([id, balances]) =>
+    [id, new Map(Object.entries(balances).map(([holder, n]) => [holder, BigInt(n)]))])),
+});
+
+const intParam = (params: URLSearchParams, name: string): number | undefined => {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${name} must be a non-negative integer`);
+  return n;
+};
+
+/** Parses `GET /mints` parameters; throws with a user-facing message on bad input. */
+export function parseMintQuery(params: URLSearchParams): MintQuery {
+  const types = params.getAll("type").flatMap(t => t.split(",")).filter(Boolean);
+  const invalid = types.find(t => !Object.values(TokenType).includes(t as TokenType));
+  if (invalid) throw new Error(`Unknown type "${invalid}"`);
+  const order = params.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") throw new Error(`order must be asc or desc`);
+
+  return {
+    contract: params.get("contract") || undefined,
+    to: params.get("to") || undefined,
+    type: types.length ? types as TokenType[] : undefined,
+    tokenId: params.get("tokenId") || undefined,
+    txHash: params.get("txHash") || undefined,
+    fromBlock: intParam(params, "fromBlock"),
+    toBlock: intParam(params, "toBlock"),
+    since: intParam(params, "since"),
+    until: intParam(params, "until"),
+    order,
+    offset: intParam(params, "offset") ?? 0,
+    limit: Math.min(API_MAX_LIMIT, intParam(params, "limit") ?? API_DEFAULT_LIMIT),
+  };
+}
+
+/** Parses the `ownersOffset` / `ownersLimit` parameters of `GET /collections/:address`. */
+export function parseOwnersPage(params: URLSearchParams): OwnersPage {
+  return {
+    offset: intParam(params, "ownersOffset") ?? 0,
+    limit: Math.min(API_MAX_LIMIT, intParam(params, "ownersLimit") ?? API_DEFAULT_LIMIT),
+  };
+}
+
+export function mintQueryToParams(q: Partial<MintQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(q)) {
+    if (value === undefined) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  return params;
+}
+
+/** Applies a query to mints ordered newest first, as `MintBuffer#toArray` returns them. */
+export function queryMints(newestFirst: readonly MintItem[], q: MintQuery): MintPage {
+  const eq = (a: string | undefined, b: string) => a === undefined || a.toLowerCase() === b.toLowerCase();
+  const types = q.type ? new Set(q.type) : null;
+  const matches = newestFirst.filter(it =>
+    eq(q.contract, it.contract)
+    && eq(q.to, it.to)
+    && eq(q.txHash, it.txHash)
+    && (q.tokenId === undefined || it.tokenId === q.tokenId)
+    && (!types || types.has(it.type))
+    && (q.fromBlock === undefined || it.blockNumber >= q.fromBlock)
+    && (q.toBlock === undefined || it.blockNumber <= q.toBlock)
+    && (q.since === undefined || (it.timestamp !== undefined && it.timestamp >= q.since))
+    && (q.until === undefined || (it.timestamp !== undefined && it.timestamp <= q.until))
+  );
+  if (q.order === "asc") matches.reverse();
+  return { total: matches.length, offset: q.offset, limit: q.limit, items: matches.slice(q.offset, q.offset + q.limit) };
+}
@@ -0,0 +1,62 @@
+import { MintItem, CollSummary } from '../types';
+import { ApiStatus, MintPage, MintQuery, SummaryJson, API_MAX_LIMIT, mintQueryToParams, summaryFromJson } from './api';
+
+export type StreamHandlers = {
+  onMints: (items: MintItem[]) => void;
+  onReorg: (fromBlock: number) => void;
+  onOpen: () => void; // also fires after each automatic reconnect
+  onError: () => void;
+};
+
+/** Browser client for the tracker CLI's `serve` API. */
+export class TrackerApiClient {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error ?? `Tracker API responded with ${res.status}`);
+    }
+    return res.json();
+  }
+
+  status(): Promise<ApiStatus> {
+    return this.get("/status");
+  }
+
+  mints(q: Partial<MintQuery>): Promise<MintPage> {
+    return this.get(`/mints?${mintQueryToParams(q)}`);
+  }
+
+  /** Pages through every mint from `fromBlock` on, oldest first. */
+  async *mintsSince(fromBlock: number): AsyncGenerator<MintItem[]> {
+    for (let offset = 0; ; offset += API_MAX_LIMIT) {
+      const page = await this.mints({ fromBlock, order: "asc", offset, limit: API_MAX_LIMIT });
+      if (page.items.length) yield page.items;
+      if (offset + page.items.length >= page.total) return;
+    }
+  }
+
+  async collections(): Promise<CollSummary[]> {
+    return (await this.get<SummaryJson[]>("/collections")).map(summaryFromJson);
+  }
+
+  async collection(address: string): Promise<CollSummary> {
+    return summaryFromJson(await this.get<SummaryJson>(`/collections/${address}`));
+  }
+
+  /** Opens the SSE feed; EventSource reconnects on its own. Returns a close function. */
+  stream(handlers: StreamHandlers): () => void {
+    const source = new EventSource(`${this.baseUrl}/stream`);
+    source.onopen = handlers.onOpen;
+    source.onerror = handlers.onError;
+    source.addEventListener("mints", (e) => handlers.onMints(JSON.parse((e as MessageEvent).data)));
+    source.addEventListener("reorg", (e) => handlers.onReorg(JSON.parse((e as MessageEvent).data).fromBlock));
+    return () => source.close();
+  }
+}
@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { TokenType, MintItem } from '../types';
+
+export type Bucketing = "minute" | "block";
+
+export type SeriesPoint = {
+  start: number; // unix seconds or block number, depending on the bucketing
+  mints: number; // mint events in the bucket
+  supply: number; // cumulative units minted up to and including the bucket
+};
+
+export type MinterCount = {
+  address: string;
+  count: number;
+};
+
+export type CollectionStats = {
+  mints: number;
+  supply: number;
+  uniqueMinters: number;
+  topMinters: MinterCount[];
+  top10Share: number; // 0..1 share of mint events from the ten busiest wallets
+  avgPrice: bigint | null; // wei per mint over txs with a known value
+  pricedMints: number;
+  series: SeriesPoint[];
+  firstBlock?: number;
+  lastBlock?: number;
+};
+
+const TOP_MINTERS = 10;
+
+// Units a mint adds to supply: one NFT, the ERC-1155 amount, or whole ERC-20 tokens
+function mintUnits(it: MintItem, decimals?: number): number {
+  if (it.type === TokenType.ERC721) return 1;
+  if (!it.amount) return 0;
+  try {
+    return it.type === TokenType.ERC20 ? Number(ethers.formatUnits(it.amount, decimals ?? 18)) : Number(it.amount);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Aggregates one collection's mints (any order) into the numbers and series the
+ * collection page charts. Minute bucketing skips mints without a timestamp. At
+ * most `maxPoints` buckets are returned; wider ranges are merged into coarser
+ * buckets of whole minutes/blocks.
+ */
+export function buildCollectionStats(
+  items: readonly MintItem[],
+  bucketing: Bucketing,
+  decimals?: number,
+  maxPoints = 120,
+): CollectionStats {
+  const byMinter = new Map<string, number>();
+  const txValues = new Map<string, { value: bigint; mints: number }>();
+  let supply = 0;
+  let firstBlock: number | undefined;
+  let lastBlock: number | undefined;
+
+  for (const it of items) {
+    byMinter.set(it.to, (byMinter.get(it.to) ?? 0) + 1);
+    supply += mintUnits(it, decimals);
+    if (firstBlock === undefined || it.blockNumber < firstBlock) firstBlock = it.blockNumber;
+    if (lastBlock === undefined || it.blockNumber > lastBlock) lastBlock = it.blockNumber;
+    if (it.txValue !== undefined) {
+      const tx = txValues.get(it.txHash);
+      if (tx) tx.mints++;
+      else txValues.set(it.txHash, { value: BigInt(it.txValue), mints: 1 });
+    }
+  }
+
+  const ranked = [...byMinter].map(([address, count]) => ({ address, count })).sort((a, b) => b.count - a.count);
+  const topMinters = ranked.slice(0, TOP_MINTERS);
+  const topCount = topMinters.reduce((n, m) => n + m.count, 0);
+
+  // A tx's value pays for every mint of this collection it produced
+  let paid = 0n;
+  let pricedMints = 0;
+  for (const tx of txValues.values()) {
+    paid += tx.value;
+    pricedMints += tx.mints;
+  }
+
+  return {
+    mints: items.length,
+    supply,
+    uniqueMinters: byMinter.size,
+    topMinters,
+    top10Share: items.length ? topCount / items.length : 0,
+    avgPrice: pricedMints ? paid / BigInt(pricedMints) : null,
+    pricedMints,
+    series: buildSeries(items, bucketing, decimals, maxPoints),
+    firstBlock,
+    lastBlock,
+  };
+}
+
+function buildSeries(items: readonly MintItem[], bucketing: Bucketing, decimals: number | undefined, maxPoints: number): SeriesPoint[] {
+  const keyed: { key: number; units: number }[] = [];
+  for (const it of items) {
+    const key = bucketing === "block" ? it.blockNumber : it.timestamp;
+    if (key === undefined) continue;
+    keyed.push({ key, units: mintUnits(it, decimals) });
+  }
+  if (keyed.length === 0) return [];
+
+  const unit = bucketing === "minute" ? 60 : 1;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const k of keyed) {
+    if (k.key < min) min = k.key;
+    if (k.key > max) max = k.key;
+  }
+  const origin = Math.floor(min / unit) * unit;
+  const span = Math.floor((max - origin) / unit) + 1;
+  const width = unit * Math.max(1, Math.ceil(span / maxPoints));
+  const count = Math.floor((max - origin) / width) + 1;
+
+  const points: SeriesPoint[] = Array.from({ length: count }, (_, i) => ({ start: origin + i * width, mints: 0, supply: 0 }));
+  const added = new Array<number>(count).fill(0);
+  for (const k of keyed) {
+    const i = Math.floor((k.key - origin) / width);
+    points[i].mints++;
+    added[i] += k.units;
+  }
+  let total = 0;
+  points.forEach((p, i) => {
+    total += added[i];
+    p.supply = total;
+  });
+  return points;
+}
@@ -0,0 +1,159 @@
+import { ethers } from "ethers";
+
+export type ConnectionState = "connecting" | "connected" | "reconnecting" | "degraded" | "closed";
+
+export type WsManagerOptions = {
+  heartbeatMs: number;
+  heartbeatTimeoutMs: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  degradeAfter: number; // failed attempts before the state is reported as "degraded"
+  onStateChange?: (state: ConnectionState, attempt: number) => void;
+  onReconnect?: () => void; // fired after subscriptions were restored on a new socket
+};
+
+type Subscription = {
+  filter: ethers.ProviderEvent;
+  listener: ethers.Listener;
+};
+
+const withTimeout = <T>(p: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    p.then(
+      (v) => { clearTimeout(t); resolve(v); },
+      (e) => { clearTimeout(t); reject(e); },
+    );
+  });
+
+/**
+ * Owns a WebSocketProvider that heals itself: a heartbeat detects dead sockets,
+ * reconnects back off exponentially, and subscriptions are replayed on every new socket.
+ * With several URLs each reconnect moves on to the next one.
+ */
+export class WsConnectionManager {
+  private provider: ethers.WebSocketProvider | null = null;
+  private subs: Subscription[] = [];
+  private state: ConnectionState = "connecting";
+  private attempt = 0;
+  private hasConnected = false;
+  private stopped = true;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private urlIndex = 0;
+
+  constructor(private readonly urls: readonly string[], private readonly opts: WsManagerOptions) {
+    if (urls.length === 0) throw new Error("WsConnectionManager needs at least one URL");
+  }
+
+  get connectionState() {
+    return this.state;
+  }
+
+  /** The endpoint in use, or tried next while reconnecting. */
+  get url() {
+    return this.urls[this.urlIndex];
+  }
+
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.setState("connecting");
+    this.connect();
+  }
+
+  async stop() {
+    this.stopped = true;
+    this.clearTimers();
+    const provider = this.provider;
+    this.provider = null;
+    this.setState("closed");
+    if (provider) await provider.destroy().catch(console.error);
+  }
+
+  subscribe(filter: ethers.ProviderEvent, listener: ethers.Listener) {
+    this.subs.push({ filter, listener });
+    this.provider?.on(filter, listener).catch(console.error);
+  }
+
+  unsubscribeAll() {
+    const provider = this.provider;
+    for (const s of this.subs) {
+      provider?.off(s.filter, s.listener).catch(console.error);
+    }
+    this.subs = [];
+  }
+
+  private setState(state: ConnectionState) {
+    this.state = state;
+    this.opts.onStateChange?.(state, this.attempt);
+  }
+
+  private async connect() {
+    if (this.stopped) return;
+    let provider: ethers.WebSocketProvider | null = null;
+    let socket: WebSocket;
+    try {
+      // Our own socket, since ethers' WebSocketLike has no close event to listen for
+      socket = new WebSocket(this.url);
+      provider = new ethers.WebSocketProvider(socket);
+      await withTimeout(provider.getBlockNumber(), this.opts.heartbeatTimeoutMs);
+    } catch (e) {
+      console.error("WebSocket connection failed:", e);
+      provider?.destroy().catch(() => {});
+      this.scheduleRetry();
+      return;
+    }
+    if (this.stopped) {
+      provider.destroy().catch(() => {});
+      return;
+    }
+
+    const isReconnect = this.hasConnected;
+    this.provider = provider;
+    this.hasConnected = true;
+    this.attempt = 0;
+    for (const s of this.subs) {
+      provider.on(s.filter, s.listener).catch(console.error);
+    }
+    socket.addEventListener("close", () => this.handleFailure(provider!));
+    this.startHeartbeat(provider);
+    this.setState("connected");
+    if (isReconnect) this.opts.onReconnect?.();
+  }
+
+  private startHeartbeat(provider: ethers.WebSocketProvider) {
+    this.heartbeat = setInterval(async () => {
+      try {
+        await withTimeout(provider.getBlockNumber(), this.opts.heartbeatTimeoutMs);
+      } catch (e) {
+        console.error("WebSocket heartbeat failed:", e);
+        this.handleFailure(provider);
+      }
+    }, this.opts.heartbeatMs);
+  }
+
+  private handleFailure(provider: ethers.WebSocketProvider) {
+    if (this.stopped || provider !== this.provider) return;
+    this.clearTimers();
+    this.provider = null;
+    provider.destroy().catch(() => {});
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry() {
+    if (this.stopped) return;
+    this.attempt++;
+    this.urlIndex = (this.urlIndex + 1) % this.urls.length;
+    this.setState(this.attempt > this.opts.degradeAfter ? "degraded" : "reconnecting");
+    const delay = Math.min(this.opts.backoffBaseMs * 2 ** (this.attempt - 1), this.opts.backoffMaxMs);
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private clearTimers() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.heartbeat = null;
+    this.retryTimer = null;
+  }
+}
@@ -0,0 +1,28 @@
+import { ethers } from "ethers";
+import { TokenType, ContractMeta } from '../types';
+import { METADATA_ABI } from '../constants';
+
+// A revert or empty return means the contract lacks the function; anything else is the RPC's fault
+const isMissingFunction = (e: unknown) => ethers.isError(e, "CALL_EXCEPTION") || ethers.isError(e, "BAD_DATA");
+
+/**
+ * Reads name/symbol (and decimals for ERC-20); calls that revert leave the field
+ * undefined. Throws when the RPC itself failed, so the result is not cached as missing.
+ */
+export async function fetchContractMeta(runner: ethers.ContractRunner, address: string, type: TokenType): Promise<ContractMeta> {
+  const c = new ethers.Contract(address, METADATA_ABI, runner);
+  const promises: Promise<any>[] = [c.name(), c.symbol()];
+  if (type === TokenType.ERC20) {
+    promises.push(c.decimals());
+  }
+  const results = await Promise.allSettled(promises);
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === "rejected" && !isMissingFunction(r.reason));
+  if (failure) throw failure.reason;
+  const [nameRes, symbolRes, decimalsRes] = results;
+
+  return {
+    name: nameRes.status === "fulfilled" ? nameRes.value : undefined,
+    symbol: symbolRes.status === "fulfilled" ? symbolRes.value : undefined,
+    decimals: decimalsRes?.status === "fulfilled" ? Number(decimalsRes.value) : undefined,
+  };
+}
@@ -0,0 +1,121 @@
+import { ethers } from "ethers";
+import { TokenType, MintItem, TransferItem } from '../types';
+import { ZERO_TOPIC, TRANSFER_TOPIC, TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC } from '../constants';
+
+// The subset of ethers' Log the decoder reads, so plain RPC objects and fixtures work too.
+export type LogLike = {
+  blockNumber: number;
+  transactionHash: string;
+  index: number;
+  address: string;
+  topics: readonly string[];
+  data: string;
+};
+
+const topicToAddress = (topic: string) => ethers.getAddress(`0x${topic.slice(26)}`);
+
+type DecodedTransfer = Omit<TransferItem, "kind">;
+
+// Decodes the Transfer / TransferSingle / TransferBatch logs whose `from` is
+// (mints) or is not (everything else) the zero address; others yield nothing.
+function decodeTransfers(log: LogLike, mints: boolean): DecodedTransfer[] {
+  const results: DecodedTransfer[] = [];
+  const baseItem = {
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    contract: ethers.getAddress(log.address),
+  };
+  const wanted = (fromTopic: string) => (fromTopic === ZERO_TOPIC) === mints;
+
+  try {
+    switch (log.topics[0]) {
+      case TRANSFER_TOPIC: // ERC-20 or ERC-721
+        if (wanted(log.topics[1])) {
+          const from = topicToAddress(log.topics[1]);
+          const to = topicToAddress(log.topics[2]);
+          if (log.topics.length === 4) { // ERC-721
+            results.push({
+              ...baseItem,
+              from,
+              to,
+              type: TokenType.ERC721,
+              tokenId: ethers.toBigInt(log.topics[3]).toString(),
+            });
+          } else { // ERC-20
+            const amount = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], log.data)[0];
+            results.push({
+              ...baseItem,
+              from,
+              to,
+              type: TokenType.ERC20,
+              amount: amount.toString(),
+            });
+          }
+        }
+        break;
+      case TRANSFER_SINGLE_TOPIC: // ERC-1155 Single
+        if (wanted(log.topics[2])) {
+          const from = topicToAddress(log.topics[2]);
+          const to = topicToAddress(log.topics[3]);
+          const [id, value] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256', 'uint256'], log.data);
+          results.push({
+            ...baseItem,
+            from,
+            to,
+            type: TokenType.ERC1155,
+            tokenId: id.toString(),
+            amount: value.toString(),
+          });
+        }
+        break;
+      case TRANSFER_BATCH_TOPIC: // ERC-1155 Batch
+        if (wanted(log.topics[2])) {
+          const from = topicToAddress(log.topics[2]);
+          const to = topicToAddress(log.topics[3]);
+          const [ids, values] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256[]', 'uint256[]'], log.data);
+          for (let i = 0; i < ids.length; i++) {
+            results.push({
+              ...baseItem,
+              subIndex: i,
+              from,
+              to,
+              type: TokenType.ERC1155,
+              tokenId: ids[i].toString(),
+              amount: values[i].toString(),
+            });
+          }
+        }
+        break;
+    }
+  } catch (e) {
+    console.error("Error processing log:", log, e);
+    return [];
+  }
+  return results;
+}
+
+/**
+ * Decodes a Transfer / TransferSingle / TransferBatch log into mint items.
+ * Non-mint transfers (non-zero `from`) and malformed logs yield an empty array.
+ */
+export function decodeMintLog(log: LogLike): MintItem[] {
+  return decodeTransfers(log, true).map(({ from, ...it }) => it);
+}
+
+/**
+ * Decodes the non-mint side of a transfer log: moves between holders, and
+ * burns when tokens go to the zero address. Mints yield an empty array.
+ */
+export function decodeTransferLog(log: LogLike): TransferItem[] {
+  return decodeTransfers(log, false).map(it => ({ ...it, kind: it.to === ethers.ZeroAddress ? "burn" : "transfer" }));
+}
+
+export function createMintWhitelist(addresses: readonly string[]): Set<string> {
+  return new Set(addresses.map(a => a.toLowerCase()));
+}
+
+// A mint only counts when its transaction was sent to one of the whitelisted minter contracts.
+export function isWhitelistedTx(txTo: string | null | undefined, whitelist: ReadonlySet<string>): boolean {
+  return !!txTo && whitelist.has(txTo.toLowerCase());
+}
@@ -0,0 +1,210 @@
+import { ethers } from "ethers";
+import { TokenType, MintItem, CollSummary, ContractMeta } from '../types';
+
+export type RangeKind = "block" | "time";
+
+export type MintFilters = {
+  contract: string; // address, or a name/symbol substring
+  recipient: string;
+  types: TokenType[]; // empty = all
+  rangeKind: RangeKind;
+  rangeFrom: string; // block number, or a datetime-local value
+  rangeTo: string;
+  minAmount: string; // human units; applies to ERC-20 and ERC-1155 only
+  hideFlagged: boolean; // drop collections the spam heuristics or a manual verdict flag
+};
+
+export type SortDir = "asc" | "desc";
+export type SortState<K extends string> = { key: K; dir: SortDir };
+export type MintSortKey = "time" | "type" | "contract" | "recipient" | "details" | "tx";
+export type SummarySortKey = "name" | "type" | "address" | "mints" | "unique" | "supply" | "holders";
+
+export const EMPTY_FILTERS: MintFilters = {
+  contract: "",
+  recipient: "",
+  types: [],
+  rangeKind: "block",
+  rangeFrom: "",
+  rangeTo: "",
+  minAmount: "",
+  hideFlagged: false,
+};
+
+export const DEFAULT_MINT_SORT: SortState<MintSortKey> = { key: "time", dir: "desc" };
+export const DEFAULT_SUMMARY_SORT: SortState<SummarySortKey> = { key: "mints", dir: "desc" };
+
+type MetaLookup = (addr: string) => ContractMeta | undefined;
+type FlagLookup = (contract: string) => boolean;
+
+export const isFiltered = (f: MintFilters) =>
+  f.contract !== "" || f.recipient !== "" || f.types.length > 0 || f.rangeFrom !== "" || f.rangeTo !== "" || f.minAmount !== "" || f.hideFlagged;
+
+function matchesContract(address: string, meta: ContractMeta | undefined, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  if (address.toLowerCase().includes(q)) return true;
+  return !!(meta?.name?.toLowerCase().includes(q) || meta?.symbol?.toLowerCase().includes(q));
+}
+
+// datetime-local values are in the viewer's local time
+const parseBound = (kind: RangeKind, v: string): number | null => {
+  if (v.trim() === "") return null;
+  const n = kind === "block" ? Number(v) : Date.parse(v) / 1000;
+  return Number.isFinite(n) ? n : null;
+};
+
+function minAmountFor(it: MintItem, minAmount: string, decimals?: number): bigint | null {
+  if (minAmount.trim() === "") return null;
+  try {
+    return it.type === TokenType.ERC20
+      ? ethers.parseUnits(minAmount.trim(), decimals ?? 18)
+      : BigInt(Math.ceil(Number(minAmount)));
+  } catch {
+    return null;
+  }
+}
+
+// Generic so transfer rows (which carry every field filtered on) pass through with their type
+export function filterMints<T extends MintItem>(items: readonly T[], f: MintFilters, metaFor: MetaLookup, isFlagged?: FlagLookup): T[] {
+  if (!isFiltered(f)) return items as T[];
+  const recipient = f.recipient.trim().toLowerCase();
+  const types = new Set(f.types);
+  const lo = parseBound(f.rangeKind, f.rangeFrom);
+  const hi = parseBound(f.rangeKind, f.rangeTo);
+
+  return items.filter(it => {
+    if (types.size > 0 && !types.has(it.type)) return false;
+    if (f.hideFlagged && isFlagged?.(it.contract)) return false;
+    if (recipient && !it.to.toLowerCase().includes(recipient)) return false;
+    if (!matchesContract(it.contract, metaFor(it.contract), f.contract)) return false;
+    if (lo !== null || hi !== null) {
+      const v = f.rangeKind === "block" ? it.blockNumber : it.timestamp;
+      if (v === undefined) return false;
+      if (lo !== null && v < lo) return false;
+      if (hi !== null && v > hi) return false;
+    }
+    if (it.type !== TokenType.ERC721) {
+      const min = minAmountFor(it, f.minAmount, metaFor(it.contract)?.decimals);
+      if (min !== null && BigInt(it.amount ?? "0") < min) return false;
+    }
+    return true;
+  });
+}
+
+// Range, recipient and amount are per-mint, so only these narrow the summary table
+export function filterSummaries(list: readonly CollSummary[], f: MintFilters, isFlagged?: FlagLookup): CollSummary[] {
+  const types = new Set(f.types);
+  return list.filter(s =>
+    (types.size === 0 || types.has(s.type)) && matchesContract(s.address, s, f.contract) &&
+    !(f.hideFlagged && isFlagged?.(s.address)));
+}
+
+const cmp = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0);
+
+// ERC-20 amounts are compared in token units so different decimals line up
+const amountValue = (it: MintItem, decimals?: number) => {
+  if (!it.amount) return 0;
+  try {
+    return Number(it.type === TokenType.ERC20 ? ethers.formatUnits(it.amount, decimals ?? 18) : it.amount);
+  } catch {
+    return 0;
+  }
+};
+
+export function sortMints<T extends MintItem>(items: readonly T[], sort: SortState<MintSortKey>, metaFor: MetaLookup): T[] {
+  const sign = sort.dir === "asc" ? 1 : -1;
+  const byTime = (a: MintItem, b: MintItem) =>
+    a.blockNumber - b.blockNumber || a.logIndex - b.logIndex || (a.subIndex ?? 0) - (b.subIndex ?? 0);
+  const key: (a: MintItem, b: MintItem) => number = {
+    time: byTime,
+    type: (a: MintItem, b: MintItem) => cmp(a.type, b.type),
+    contract: (a: MintItem, b: MintItem) =>
+      cmp((metaFor(a.contract)?.name ?? a.contract).toLowerCase(), (metaFor(b.contract)?.name ?? b.contract).toLowerCase()),
+    recipient: (a: MintItem, b: MintItem) => cmp(a.to.toLowerCase(), b.to.toLowerCase()),
+    details: (a: MintItem, b: MintItem) =>
+      amountValue(a, metaFor(a.contract)?.decimals) - amountValue(b, metaFor(b.contract)?.decimals)
+      || cmp(Number(a.tokenId ?? 0), Number(b.tokenId ?? 0)),
+    tx: (a: MintItem, b: MintItem) => cmp(a.txHash, b.txHash),
+  }[sort.key];
+  // Ties fall back to newest first so the order is stable across renders
+  return [...items].sort((a, b) => sign * key(a, b) || byTime(b, a));
+}
+
+// Like amountValue: ERC-20 supply in token units
+const supplyValue = (s: CollSummary) =>
+  Number(s.type === TokenType.ERC20 ? ethers.formatUnits(s.circulatingSupply, s.decimals ?? 18) : s.circulatingSupply);
+
+export function sortSummaries(list: readonly CollSummary[], sort: SortState<SummarySortKey>): CollSummary[] {
+  const sign = sort.dir === "asc" ? 1 : -1;
+  const key: (a: CollSummary, b: CollSummary) => number = {
+    name: (a: CollSummary, b: CollSummary) => cmp((a.name ?? "").toLowerCase(), (b.name ?? "").toLowerCase()),
+    type: (a: CollSummary, b: CollSummary) => cmp(a.type, b.type),
+    address: (a: CollSummary, b: CollSummary) => cmp(a.address.toLowerCase(), b.address.toLowerCase()),
+    mints: (a: CollSummary, b: CollSummary) => a.totalMintEvents - b.totalMintEvents,
+    unique: (a: CollSummary, b: CollSummary) => a.uniqueTokens - b.uniqueTokens,
+    supply: (a: CollSummary, b: CollSummary) => supplyValue(a) - supplyValue(b),
+    holders: (a: CollSummary, b: CollSummary) => a.holders - b.holders,
+  }[sort.key];
+  return [...list].sort((a, b) => sign * key(a, b) || b.totalMintEvents - a.totalMintEvents);
+}
+
+// --- URL query string ---
+
+const MINT_SORT_KEYS: MintSortKey[] = ["time", "type", "contract", "recipient", "details", "tx"];
+const SUMMARY_SORT_KEYS: SummarySortKey[] = ["name", "type", "address", "mints", "unique", "supply", "holders"];
+const FILTER_PARAMS = ["contract", "recipient", "types", "range", "from", "until", "min", "clean", "sort", "ssort"];
+
+function parseSort<K extends string>(raw: string | null, keys: K[], fallback: SortState<K>): SortState<K> {
+  const [key, dir] = (raw ?? "").split(":");
+  return keys.includes(key as K) && (dir === "asc" || dir === "desc") ? { key: key as K, dir } : fallback;
+}
+
+export function filtersFromQuery(params: URLSearchParams): {
+  filters: MintFilters;
+  mintSort: SortState<MintSortKey>;
+  summarySort: SortState<SummarySortKey>;
+} {
+  const types = (params.get("types") ?? "").split(",").filter((t): t is TokenType =>
+    Object.values(TokenType).includes(t as TokenType));
+  return {
+    filters: {
+      contract: params.get("contract") ?? "",
+      recipient: params.get("recipient") ?? "",
+      types,
+      rangeKind: params.get("range") === "time" ? "time" : "block",
+      rangeFrom: params.get("from") ?? "",
+      rangeTo: params.get("until") ?? "",
+      minAmount: params.get("min") ?? "",
+      hideFlagged: params.get("clean") === "1",
+    },
+    mintSort: parseSort(params.get("sort"), MINT_SORT_KEYS, DEFAULT_MINT_SORT),
+    summarySort: parseSort(params.get("ssort"), SUMMARY_SORT_KEYS, DEFAULT_SUMMARY_SORT),
+  };
+}
+
+/** Writes filter state into `params`, leaving unrelated params (e.g. network) alone. */
+export function filtersToQuery(
+  params: URLSearchParams,
+  f: MintFilters,
+  mintSort: SortState<MintSortKey>,
+  summarySort: SortState<SummarySortKey>,
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  FILTER_PARAMS.forEach(p => next.delete(p));
+  const set = (k: string, v: string) => v !== "" && next.set(k, v);
+  set("contract", f.contract);
+  set("recipient", f.recipient);
+  set("types", f.types.join(","));
+  if (f.rangeFrom !== "" || f.rangeTo !== "") set("range", f.rangeKind);
+  set("from", f.rangeFrom);
+  set("until", f.rangeTo);
+  set("min", f.minAmount);
+  if (f.hideFlagged) next.set("clean", "1");
+  if (mintSort.key !== DEFAULT_MINT_SORT.key || mintSort.dir !== DEFAULT_MINT_SORT.dir) {
+    next.set("sort", `${mintSort.key}:${mintSort.dir}`);
+  }
+  if (summarySort.key !== DEFAULT_SUMMARY_SORT.key || summarySort.dir !== DEFAULT_SUMMARY_SORT.dir) {
+    next.set("ssort", `${summarySort.key}:${summarySort.dir}`);
+  }
+  return next;
+}
@@ -0,0 +1,94 @@
+import { LruCache } from './lru';
+
+// Anything with ethers' JsonRpcProvider#send signature.
+export type RpcSender = {
+  send(method: string, params: any[]): Promise<any>;
+};
+
+// The parts of a transaction the pipeline keeps
+export type TxInfo = {
+  from: string; // lowercased
+  to: string | null; // lowercased, null for contract creations
+  value: string; // native value in wei
+};
+
+export type LookupStats = {
+  naive: number; // calls the one-request-per-log pipeline would have made
+  sent: number; // JSON-RPC calls actually sent
+};
+
+/**
+ * Cached transaction and block timestamp lookups.
+ *
+ * Misses are issued concurrently through `send`; ethers' JsonRpcProvider coalesces
+ * concurrent sends into JSON-RPC batch requests (up to `batchMaxCount` per batch).
+ * In-flight promises are cached too, so overlapping callers share one request.
+ */
+export class ChainLookup {
+  readonly stats: LookupStats = { naive: 0, sent: 0 };
+  private txs: LruCache<string, Promise<TxInfo>>;
+  private blockTimes: LruCache<number, Promise<number>>;
+
+  constructor(readonly rpc: RpcSender, txCacheSize: number, blockCacheSize: number) {
+    this.txs = new LruCache(txCacheSize);
+    this.blockTimes = new LruCache(blockCacheSize);
+  }
+
+  get saved() {
+    return Math.max(0, this.stats.naive - this.stats.sent);
+  }
+
+  /**
+   * Resolves the sender, `to` and value of each transaction. Rejects when any lookup
+   * fails or the node does not know a hash, so callers retry rather than drop mints.
+   * `naive` is how many calls the caller would otherwise have made for these hashes.
+   */
+  async getTransactions(hashes: string[], naive = hashes.length): Promise<Map<string, TxInfo>> {
+    this.stats.naive += naive;
+    const unique = [...new Set(hashes)];
+    const entries = await Promise.all(unique.map(async (hash) => {
+      let p = this.txs.get(hash);
+      if (!p) {
+        this.stats.sent++;
+        p = this.rpc.send("eth_getTransactionByHash", [hash]).then((tx) => {
+          if (!tx) throw new Error(`Transaction ${hash} not found`);
+          return {
+            from: String(tx.from).toLowerCase(),
+            to: tx.to ? String(tx.to).toLowerCase() : null,
+            value: BigInt(tx.value ?? 0).toString(),
+          };
+        });
+        // Failures are not cached, so the next attempt asks again
+        p.catch(() => this.txs.delete(hash));
+        this.txs.set(hash, p);
+      }
+      return [hash, await p] as const;
+    }));
+    return new Map(entries);
+  }
+
+  /** Resolves block timestamps (seconds). Rejects when any block cannot be fetched. */
+  async getBlockTimestamps(blockNumbers: number[], naive = new Set(blockNumbers).size): Promise<Map<number, number>> {
+    this.stats.naive += naive;
+    const unique = [...new Set(blockNumbers)];
+    const entries = await Promise.all(unique.map(async (bn) => {
+      let p = this.blockTimes.get(bn);
+      if (!p) {
+        this.stats.sent++;
+        p = this.rpc.send("eth_getBlockByNumber", [`0x${bn.toString(16)}`, false]).then((blk) => {
+          if (!blk?.timestamp) throw new Error(`Block ${bn} not found`);
+          return Number(blk.timestamp);
+        });
+        p.catch(() => this.blockTimes.delete(bn));
+        this.blockTimes.set(bn, p);
+      }
+      return [bn, await p] as const;
+    }));
+    return new Map(entries);
+  }
+
+  clear() {
+    this.txs.clear();
+    this.blockTimes.clear();
+  }
+}
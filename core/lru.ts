@@ -0,0 +1,40 @@
+/** Minimal LRU cache on top of Map's insertion order. */
+export class LruCache<K, V> {
+  private map = new Map<K, V>();
+
+  constructor(private readonly capacity: number) {}
+
+  get size() {
+    return this.map.size;
+  }
+
+  has(key: K): boolean {
+    return this.map.has(key);
+  }
+
+  get(key: K): V | undefined {
+    if (!this.map.has(key)) return undefined;
+    const value = this.map.get(key) as V;
+    // Re-insert to mark as most recently used
+    this.map.delete(key);
+    this.map.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V) {
+    this.map.delete(key);
+    this.map.set(key, value);
+    if (this.map.size > this.capacity) {
+      const oldest = this.map.keys().next().value as K;
+      this.map.delete(oldest);
+    }
+  }
+
+  delete(key: K) {
+    this.map.delete(key);
+  }
+
+  clear() {
+    this.map.clear();
+  }
+}
@@ -0,0 +1,107 @@
+import { MintItem } from '../types';
+import { compareMints } from './aggregator';
+
+// Oldest first, the reverse of compareMints
+const ascending = (a: MintItem, b: MintItem) => compareMints(b, a);
+
+/**
+ * Fixed-capacity ring buffer of mints kept in chain order. New mints almost always
+ * land at the newest end, so inserts are O(1) in the common case and only
+ * out-of-order items (e.g. from a historical scan) shift part of the buffer.
+ * When full, the oldest mint is evicted. Transfers share the chain ordering and
+ * can be kept in a buffer of their own.
+ */
+export class MintBuffer<T extends MintItem = MintItem> {
+  private data: (T | undefined)[];
+  private head = 0; // slot of the oldest item
+  private count = 0;
+
+  constructor(private capacity: number) {
+    this.capacity = Math.max(1, capacity);
+    this.data = new Array(this.capacity);
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  get cap() {
+    return this.capacity;
+  }
+
+  /** `i = 0` is the newest mint. */
+  at(i: number): T {
+    return this.get(this.count - 1 - i);
+  }
+
+  /** Returns false if the buffer is full and `item` is older than everything in it. */
+  insert(item: T): boolean {
+    let lo = 0;
+    let hi = this.count;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (ascending(this.get(mid), item) <= 0) lo = mid + 1;
+      else hi = mid;
+    }
+    let pos = lo;
+
+    if (this.count === this.capacity) {
+      if (pos === 0) return false;
+      this.data[this.head] = undefined;
+      this.head = (this.head + 1) % this.capacity;
+      this.count--;
+      pos--;
+    }
+    for (let i = this.count; i > pos; i--) {
+      this.set(i, this.get(i - 1));
+    }
+    this.set(pos, item);
+    this.count++;
+    return true;
+  }
+
+  insertMany(items: readonly T[]) {
+    for (const it of [...items].sort(ascending)) this.insert(it);
+  }
+
+  /** Removes and returns every mint matching `pred`. */
+  removeWhere(pred: (it: T) => boolean): T[] {
+    const removed: T[] = [];
+    const kept: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      const it = this.get(i);
+      (pred(it) ? removed : kept).push(it);
+    }
+    if (removed.length > 0) this.reset(kept);
+    return removed;
+  }
+
+  /** Newest first, like the tables show it. */
+  toArray(): T[] {
+    const out = new Array<T>(this.count);
+    for (let i = 0; i < this.count; i++) out[i] = this.at(i);
+    return out;
+  }
+
+  clear() {
+    this.data = new Array(this.capacity);
+    this.head = 0;
+    this.count = 0;
+  }
+
+  // Replaces the contents with `ascendingItems`, keeping the newest if they don't fit
+  private reset(ascendingItems: readonly T[]) {
+    this.clear();
+    const start = Math.max(0, ascendingItems.length - this.capacity);
+    for (let i = start; i < ascendingItems.length; i++) this.data[i - start] = ascendingItems[i];
+    this.count = ascendingItems.length - start;
+  }
+
+  private get(i: number): T {
+    return this.data[(this.head + i) % this.capacity] as T;
+  }
+
+  private set(i: number, item: T) {
+    this.data[(this.head + i) % this.capacity] = item;
+  }
+}
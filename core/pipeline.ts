@@ -0,0 +1,65 @@
+import { MintItem, TransferItem } from '../types';
+import { LogLike, decodeMintLog, decodeTransferLog, isWhitelistedTx } from './decoder';
+import { ChainLookup } from './lookup';
+import { CollectionRegistry } from './registry';
+
+/**
+ * Turns raw Transfer logs into NFTS2ME mints. Logs are decoded first so
+ * non-mint transfers never cost a lookup; the survivors are grouped by tx hash
+ * and their transactions resolved in one batched pass. A mint is kept when its
+ * tx targets a whitelisted minter or its contract is in the registry, and
+ * carries the rule that matched plus the sender and value of its transaction.
+ * Rejects when a lookup fails: the caller retries the chunk rather than lose
+ * its mints.
+ */
+export async function collectMints(
+  logs: readonly LogLike[],
+  lookup: ChainLookup,
+  whitelist: ReadonlySet<string>,
+  registry?: CollectionRegistry,
+): Promise<MintItem[]> {
+  // Creation events ride along in the same log stream and must land before their mints
+  registry?.ingestLogs(logs);
+
+  const byTx = new Map<string, MintItem[]>();
+  for (const log of logs) {
+    const items = decodeMintLog(log);
+    if (items.length === 0) continue;
+    const arr = byTx.get(log.transactionHash) || [];
+    arr.push(...items);
+    byTx.set(log.transactionHash, arr);
+  }
+
+  // Previously every log cost a getTransaction, mint or not
+  const txs = await lookup.getTransactions([...byTx.keys()], logs.length);
+
+  if (registry) {
+    const unrouted = [...byTx].filter(([hash]) => !isWhitelistedTx(txs.get(hash)?.to, whitelist));
+    await registry.identify(unrouted.flatMap(([, items]) => items.map(it => it.contract)), lookup.rpc);
+  }
+
+  const results: MintItem[] = [];
+  for (const [hash, items] of byTx) {
+    const tx = txs.get(hash)!;
+    const viaMinter = isWhitelistedTx(tx.to, whitelist);
+    for (const it of items) {
+      if (viaMinter) {
+        results.push({ ...it, txValue: tx.value, txFrom: tx.from, matchedBy: "minter" });
+      } else if (registry?.has(it.contract)) {
+        results.push({ ...it, txValue: tx.value, txFrom: tx.from, matchedBy: "registry" });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Secondary transfers and burns of tracked collections. These need no lookup:
+ * whether a collection counts was already settled when its mints were collected.
+ */
+export function collectTransfers(
+  logs: readonly LogLike[],
+  isTracked: (contract: string) => boolean,
+): TransferItem[] {
+  return logs.filter(log => isTracked(log.address)).flatMap(decodeTransferLog);
+}
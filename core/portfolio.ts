@@ -0,0 +1,71 @@
+import { ethers } from "ethers";
+import { TokenType, CollSummary } from '../types';
+import { ZERO_TOPIC, TRANSFER_TOPIC, TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC, HOLDINGS_ABI } from '../constants';
+
+export type Holding = {
+  contract: string;
+  type: TokenType;
+  tokenId?: string; // undefined for ERC-20
+  balance: bigint;
+};
+
+/**
+ * getLogs filters for mints to one wallet: a zero `from` and `to` = wallet.
+ * The two shapes are separate because the addresses sit in different topic
+ * slots (Transfer indexes from/to at 1/2, ERC-1155 at 2/3 after the operator).
+ */
+export function walletMintFilters(address: string): { topics: (string | string[] | null)[] }[] {
+  const wallet = ethers.zeroPadValue(address, 32);
+  return [
+    { topics: [TRANSFER_TOPIC, ZERO_TOPIC, wallet] },
+    { topics: [[TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC], null, ZERO_TOPIC, wallet] },
+  ];
+}
+
+/** Tokens the tracked activity says `owner` holds, before checking them on chain. */
+export function holdingCandidates(summaries: readonly CollSummary[], owner: string): Omit<Holding, "balance">[] {
+  const key = ethers.getAddress(owner);
+  const out: Omit<Holding, "balance">[] = [];
+  for (const s of summaries) {
+    s.owners.forEach((balances, tokenId) => {
+      if (balances.has(key)) out.push({ contract: s.address, type: s.type, tokenId: s.type === TokenType.ERC20 ? undefined : tokenId });
+    });
+  }
+  return out;
+}
+
+// ethers turns every failed eth_call into CALL_EXCEPTION, a rate-limited one included;
+// only revert data, or the node saying so, makes it an answer
+const isRevert = (e: unknown) =>
+  ethers.isError(e, "CALL_EXCEPTION") && (e.data != null || /revert/i.test(String(e.info?.error?.message ?? "")));
+
+/**
+ * Asks each contract what `owner` holds now (ownerOf / balanceOf), so tokens
+ * sold or burned outside the tracked history drop out. Calls that revert count
+ * as not held; any other failure (a timeout, a rate limit) rejects, so a flaky
+ * RPC shows up as an error rather than as a shorter portfolio.
+ */
+export async function verifyHoldings(
+  runner: ethers.ContractRunner,
+  owner: string,
+  candidates: readonly Omit<Holding, "balance">[],
+): Promise<Holding[]> {
+  const results = await Promise.allSettled(candidates.map(async (c): Promise<Holding> => {
+    const contract = new ethers.Contract(c.contract, HOLDINGS_ABI, runner);
+    let balance: bigint;
+    if (c.type === TokenType.ERC721) {
+      const holder: string = await contract.ownerOf(c.tokenId);
+      balance = holder.toLowerCase() === owner.toLowerCase() ? 1n : 0n;
+    } else if (c.type === TokenType.ERC1155) {
+      balance = await contract["balanceOf(address,uint256)"](owner, c.tokenId);
+    } else {
+      balance = await contract["balanceOf(address)"](owner);
+    }
+    return { ...c, balance };
+  }));
+  return results.flatMap(r => {
+    if (r.status === "fulfilled") return r.value.balance > 0n ? [r.value] : [];
+    if (isRevert(r.reason)) return [];
+    throw r.reason;
+  });
+}
@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import { FactoryConfig } from '../types';
+import { LogLike } from './decoder';
+import { LruCache } from './lru';
+import { RpcSender } from './lookup';
+import { LogSource, ScanOptions, scanLogs } from './scan';
+
+export type RegistrySource = "factory" | "bytecode";
+
+export type RegistryEntry = {
+  address: string; // checksummed
+  source: RegistrySource;
+  via: string; // the factory that emitted the creation event, or the matched implementation
+  blockNumber?: number; // creation block, for factory entries
+};
+
+// EIP-1167 minimal proxy runtime code around the 20-byte implementation address
+const EIP1167_PREFIX = "0x363d3d373d3d3d363d73";
+const EIP1167_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
+// EIP-1967 implementation slot: keccak256("eip1967.proxy.implementation") - 1
+const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/** The implementation behind a minimal proxy's runtime code, or null for other code. */
+export function minimalProxyTarget(code: string): string | null {
+  const c = code.toLowerCase();
+  if (c.length !== EIP1167_PREFIX.length + 40 + EIP1167_SUFFIX.length) return null;
+  if (!c.startsWith(EIP1167_PREFIX) || !c.endsWith(EIP1167_SUFFIX)) return null;
+  return `0x${c.slice(EIP1167_PREFIX.length, EIP1167_PREFIX.length + 40)}`;
+}
+
+type Factory = { address: string; iface: ethers.Interface; topic: string; arg: number; deployBlock?: number };
+
+function compileFactory(f: FactoryConfig): Factory {
+  const iface = new ethers.Interface([f.event.trim().startsWith("event") ? f.event : `event ${f.event}`]);
+  const fragment = iface.fragments.find((fr): fr is ethers.EventFragment => fr.type === "event");
+  if (!fragment) throw new Error(`Factory ${f.address}: "${f.event}" is not an event`);
+  // Resolved to a position once, so decoding never depends on the ABI naming its arguments
+  const arg = f.collectionArg === undefined
+    ? fragment.inputs.findIndex(i => i.type === "address")
+    : fragment.inputs.findIndex(i => i.name === f.collectionArg && i.type === "address");
+  if (arg === -1) {
+    throw new Error(`Factory ${f.address}: "${f.event}" has no address argument${f.collectionArg ? ` named "${f.collectionArg}"` : ""}`);
+  }
+  return { address: f.address.toLowerCase(), iface, topic: fragment.topicHash, arg, deployBlock: f.deployBlock };
+}
+
+/**
+ * Known NFTS2ME collection contracts, discovered from factory creation events
+ * and, when implementations are configured, by fingerprinting proxy bytecode.
+ * `onAdd` fires once per newly discovered contract so callers can persist it.
+ */
+export class CollectionRegistry {
+  private entries = new Map<string, RegistryEntry>();
+  private factories: Factory[];
+  private implementations: Set<string>;
+  private probed: LruCache<string, Promise<void>>;
+
+  constructor(
+    factories: readonly FactoryConfig[],
+    implementations: readonly string[],
+    probeCacheSize: number,
+    private readonly onAdd?: (entry: RegistryEntry) => void,
+  ) {
+    this.factories = factories.flatMap(f => {
+      try {
+        return [compileFactory(f)];
+      } catch (e) {
+        console.error("Ignoring factory config:", e);
+        return [];
+      }
+    });
+    this.implementations = new Set(implementations.map(a => a.toLowerCase()));
+    this.probed = new LruCache(probeCacheSize);
+  }
+
+  /** Factory event topics, to be OR-ed into the mint log filter's topic[0]. */
+  get topics(): string[] {
+    return [...new Set(this.factories.map(f => f.topic))];
+  }
+
+  /** Whether any factory has a deploy block to backfill from. */
+  get canBackfill() {
+    return this.factories.some(f => f.deployBlock !== undefined);
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  has(address: string) {
+    return this.entries.has(address.toLowerCase());
+  }
+
+  get(address: string) {
+    return this.entries.get(address.toLowerCase());
+  }
+
+  list(): RegistryEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /** Adds previously saved entries without firing `onAdd`. */
+  load(entries: readonly RegistryEntry[]) {
+    for (const e of entries) this.entries.set(e.address.toLowerCase(), e);
+  }
+
+  private add(entry: RegistryEntry) {
+    const key = entry.address.toLowerCase();
+    if (this.entries.has(key)) return;
+    this.entries.set(key, entry);
+    this.onAdd?.(entry);
+  }
+
+  /** Registers collections from any factory creation events among `logs`. */
+  ingestLogs(logs: readonly LogLike[]) {
+    if (this.factories.length === 0) return;
+    for (const log of logs) {
+      const address = log.address.toLowerCase();
+      const factory = this.factories.find(f => f.address === address && f.topic === log.topics[0]);
+      if (!factory) continue;
+      try {
+        const parsed = factory.iface.parseLog({ topics: [...log.topics], data: log.data });
+        const created: unknown = parsed?.args[factory.arg];
+        if (typeof created === "string" && ethers.isAddress(created)) {
+          this.add({ address: ethers.getAddress(created), source: "factory", via: ethers.getAddress(log.address), blockNumber: log.blockNumber });
+        }
+      } catch (e) {
+        console.error("Undecodable factory event:", log.transactionHash, e);
+      }
+    }
+  }
+
+  /**
+   * Reads past creation events of the factories with a known deploy block, from
+   * `from` (or the earliest deploy block, if later) to `to`. `onProgress` gets the
+   * last block covered after each chunk, for callers that save how far they got.
+   * Returns false if cancelled.
+   */
+  async backfill(
+    source: LogSource,
+    from: number,
+    to: number,
+    opts: ScanOptions & { onProgress?: (block: number) => Promise<void> | void },
+  ): Promise<boolean> {
+    const factories = this.factories.filter(f => f.deployBlock !== undefined);
+    if (factories.length === 0) return true;
+    const start = Math.max(from, Math.min(...factories.map(f => f.deployBlock!)));
+    if (start > to) return true;
+    const filter = {
+      address: [...new Set(factories.map(f => f.address))],
+      topics: [[...new Set(factories.map(f => f.topic))]],
+    };
+    return scanLogs(source, filter, start, to, async (logs, end) => {
+      this.ingestLogs(logs);
+      await opts.onProgress?.(end);
+    }, opts);
+  }
+
+  /**
+   * Fingerprints unknown contracts: an EIP-1167 clone or EIP-1967 proxy whose
+   * implementation is a configured NFTS2ME implementation is registered.
+   * Each address is probed at most once while it stays in the probe cache; a
+   * failed probe is forgotten and rejects, so its mints are retried, not dropped.
+   */
+  async identify(addresses: readonly string[], rpc: RpcSender) {
+    if (this.implementations.size === 0) return;
+    await Promise.all([...new Set(addresses.map(a => a.toLowerCase()))].map(address => {
+      if (this.entries.has(address)) return;
+      let p = this.probed.get(address);
+      if (!p) {
+        p = this.probe(address, rpc).catch((e) => {
+          this.probed.delete(address);
+          throw e;
+        });
+        this.probed.set(address, p);
+      }
+      return p;
+    }));
+  }
+
+  private async probe(address: string, rpc: RpcSender) {
+    const code: string = await rpc.send("eth_getCode", [address, "latest"]);
+    let impl = minimalProxyTarget(code ?? "0x");
+    if (!impl) {
+      const slot: string = await rpc.send("eth_getStorageAt", [address, EIP1967_IMPLEMENTATION_SLOT, "latest"]);
+      impl = slot && BigInt(slot) !== 0n ? `0x${slot.slice(-40)}`.toLowerCase() : null;
+    }
+    if (impl && this.implementations.has(impl)) {
+      this.add({ address: ethers.getAddress(address), source: "bytecode", via: ethers.getAddress(impl) });
+    }
+  }
+}
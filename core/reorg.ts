@@ -0,0 +1,72 @@
+type HashedLog = { blockNumber: number; blockHash: string };
+
+/**
+ * Remembers the block hashes of the most recent blocks that carried logs, taken
+ * from the logs themselves, so a poller that re-reads its recent tail can tell
+ * when the chain under it was replaced.
+ */
+export class BlockHashTracker {
+  private hashes = new Map<number, string>();
+  private newest = -1;
+
+  constructor(private readonly depth: number) {}
+
+  /**
+   * Compares logs just fetched for [from, to] with the recorded hashes, then records
+   * theirs. Returns the lowest block whose hash changed, or null when the recorded tail
+   * is still canonical. A recorded block in [from, to] that has no logs now may only sit
+   * above the head of the endpoint that answered, so it counts only once `hashAt`
+   * reports a different hash for it; without `hashAt` (logs of unknown extent, e.g.
+   * pushed over a subscription) only hashes in `logs` are compared.
+   */
+  async reconcile(
+    logs: readonly HashedLog[],
+    from: number,
+    to: number,
+    hashAt?: (blockNumber: number) => Promise<string | null>,
+  ): Promise<number | null> {
+    const seen = new Map<number, string>();
+    logs.forEach(log => seen.set(log.blockNumber, log.blockHash));
+    const changed: number[] = [];
+    const missing: number[] = [];
+    for (const [n, hash] of this.hashes) {
+      const now = seen.get(n);
+      if (now !== undefined) {
+        if (now !== hash) changed.push(n);
+      } else if (n >= from && n <= to) {
+        missing.push(n);
+      }
+    }
+    if (hashAt) {
+      for (const n of missing) {
+        const now = await hashAt(n);
+        if (now !== null && now !== this.hashes.get(n)) changed.push(n);
+      }
+    }
+    const fork = changed.length > 0 ? Math.min(...changed) : null;
+    if (fork !== null) this.rewind(fork);
+    seen.forEach((hash, n) => this.record(n, hash));
+    return fork;
+  }
+
+  private record(blockNumber: number, hash: string) {
+    this.hashes.set(blockNumber, hash);
+    this.newest = Math.max(this.newest, blockNumber);
+    for (const n of this.hashes.keys()) {
+      if (n <= this.newest - this.depth) this.hashes.delete(n);
+    }
+  }
+
+  /** Forgets `fromBlock` and everything after it. */
+  rewind(fromBlock: number) {
+    for (const n of this.hashes.keys()) {
+      if (n >= fromBlock) this.hashes.delete(n);
+    }
+    this.newest = Math.max(-1, ...this.hashes.keys());
+  }
+
+  clear() {
+    this.hashes.clear();
+    this.newest = -1;
+  }
+}
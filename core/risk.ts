@@ -0,0 +1,132 @@
+import { TokenType, MintItem, ContractMeta, RiskOverrides } from '../types';
+import { RISK_BATCH_MINTS_PER_TX, RISK_FAN_OUT_RECIPIENTS, RISK_REPEATED_TXS, RISK_HUGE_ERC20_TOKENS } from '../constants';
+import { mintKey } from './aggregator';
+
+export type RiskFlag = "batch" | "fan-out" | "no-metadata" | "huge-amount" | "repeated-tx";
+
+export const RISK_FLAGS: Record<RiskFlag, { label: string; description: string }> = {
+  batch: {
+    label: "batch",
+    description: `One transaction minted ${RISK_BATCH_MINTS_PER_TX}+ tokens through TransferBatch`,
+  },
+  "fan-out": {
+    label: "fan-out",
+    description: `One sender minted to ${RISK_FAN_OUT_RECIPIENTS}+ other wallets`,
+  },
+  "no-metadata": {
+    label: "no name",
+    description: "The contract reports neither a name nor a symbol",
+  },
+  "huge-amount": {
+    label: "huge amount",
+    description: `An ERC-20 mint of ${RISK_HUGE_ERC20_TOKENS.toLocaleString()}+ tokens`,
+  },
+  "repeated-tx": {
+    label: "repeated",
+    description: `One sender sent the same mint transaction ${RISK_REPEATED_TXS}+ times`,
+  },
+};
+
+export type RiskVerdict = "allowed" | "denied";
+
+export type RiskReport = {
+  collections: Map<string, RiskFlag[]>; // contract -> flags, flagged contracts only
+  mints: Map<string, RiskFlag[]>; // mintKey -> flags, flagged mints only
+};
+
+type MetaLookup = (addr: string) => ContractMeta | undefined;
+
+// What a bot repeats: the same sender paying the same value for the same mints
+const txPattern = (group: readonly MintItem[]) =>
+  [group[0].contract, group[0].txFrom, group[0].txValue ?? "", group.length, group.map(it => it.amount ?? "").join(",")].join("|");
+
+// Resolved metadata always has name/symbol keys; an empty object is a lookup still in flight
+const lacksMetadata = (meta?: ContractMeta) =>
+  !!meta && Object.keys(meta).length > 0 && !meta.name && !meta.symbol;
+
+function isHugeAmount(it: MintItem, decimals?: number): boolean {
+  if (it.type !== TokenType.ERC20 || !it.amount) return false;
+  try {
+    return BigInt(it.amount) >= RISK_HUGE_ERC20_TOKENS * 10n ** BigInt(decimals ?? 18);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scores mints (any order) against the spam and bot heuristics. The sender
+ * checks need `txFrom`, so mints recorded before it was kept only trip the
+ * batch and amount checks. A collection carries every flag of its mints, plus
+ * "no-metadata".
+ */
+export function assessRisk(items: readonly MintItem[], metaFor: MetaLookup): RiskReport {
+  const txs = new Map<string, MintItem[]>();
+  for (const it of items) {
+    const key = `${it.txHash}|${it.contract}`;
+    const group = txs.get(key);
+    if (group) group.push(it);
+    else txs.set(key, [it]);
+  }
+
+  const recipients = new Map<string, Set<string>>(); // contract|sender -> other wallets minted to
+  const patterns = new Map<string, number>(); // txPattern -> txs
+  for (const group of txs.values()) {
+    const sender = group[0].txFrom;
+    if (!sender) continue;
+    const key = `${group[0].contract}|${sender}`;
+    const set = recipients.get(key) ?? new Set<string>();
+    group.forEach(it => it.to.toLowerCase() !== sender && set.add(it.to.toLowerCase()));
+    recipients.set(key, set);
+    const pattern = txPattern(group);
+    patterns.set(pattern, (patterns.get(pattern) ?? 0) + 1);
+  }
+
+  const report: RiskReport = { collections: new Map(), mints: new Map() };
+  const flagCollection = (contract: string, flag: RiskFlag) => {
+    const flags = report.collections.get(contract) ?? [];
+    if (!flags.includes(flag)) report.collections.set(contract, [...flags, flag]);
+  };
+
+  for (const group of txs.values()) {
+    const { contract, txFrom } = group[0];
+    const txFlags: RiskFlag[] = [];
+    if (group.filter(it => it.subIndex !== undefined).length >= RISK_BATCH_MINTS_PER_TX) txFlags.push("batch");
+    if (txFrom && recipients.get(`${contract}|${txFrom}`)!.size >= RISK_FAN_OUT_RECIPIENTS) txFlags.push("fan-out");
+    if (txFrom && patterns.get(txPattern(group))! >= RISK_REPEATED_TXS) txFlags.push("repeated-tx");
+    const decimals = metaFor(contract)?.decimals;
+    for (const it of group) {
+      const flags: RiskFlag[] = isHugeAmount(it, decimals) ? [...txFlags, "huge-amount"] : txFlags;
+      if (flags.length === 0) continue;
+      report.mints.set(mintKey(it), flags);
+      flags.forEach(f => flagCollection(contract, f));
+    }
+  }
+
+  for (const contract of new Set(items.map(it => it.contract))) {
+    if (lacksMetadata(metaFor(contract))) flagCollection(contract, "no-metadata");
+  }
+  return report;
+}
+
+export function riskVerdict(overrides: RiskOverrides, contract: string): RiskVerdict | undefined {
+  const addr = contract.toLowerCase();
+  if (overrides.denied.some(a => a.toLowerCase() === addr)) return "denied";
+  if (overrides.allowed.some(a => a.toLowerCase() === addr)) return "allowed";
+  return undefined;
+}
+
+/** Whether a contract counts as flagged once manual verdicts are applied. */
+export function isFlagged(report: RiskReport, overrides: RiskOverrides, contract: string): boolean {
+  const verdict = riskVerdict(overrides, contract);
+  return verdict ? verdict === "denied" : report.collections.has(contract);
+}
+
+/** Sets or (with null) clears the manual verdict for a contract. */
+export function setRiskVerdict(overrides: RiskOverrides, contract: string, verdict: RiskVerdict | null): RiskOverrides {
+  const addr = contract.toLowerCase();
+  const allowed = overrides.allowed.filter(a => a.toLowerCase() !== addr);
+  const denied = overrides.denied.filter(a => a.toLowerCase() !== addr);
+  if (verdict === "allowed") allowed.push(contract);
+  if (verdict === "denied") denied.push(contract);
+  return { allowed, denied };
+}
@@ -0,0 +1,266 @@
+import { ethers } from "ethers";
+
+export type PoolOptions = {
+  maxRps: number; // per endpoint, 0 = unlimited
+  maxConcurrency: number; // in-flight requests per endpoint, 0 = unlimited
+  maxAttempts: number; // tries per request across all endpoints
+  backoffBaseMs: number; // first cooldown of a failing endpoint, doubled per consecutive failure
+  backoffMaxMs: number;
+  timeoutMs: number;
+};
+
+export type EndpointHealth = {
+  url: string; // redacted
+  requests: number;
+  errors: number;
+  rateLimited: number; // 429s, and JSON-RPC replies saying the same
+  inFlight: number;
+  avgLatencyMs: number | null; // moving average over successful requests
+  lastError: string | null;
+  coolingDownMs: number; // 0 while the endpoint takes requests
+};
+
+export type PoolStats = {
+  requests: number;
+  retries: number;
+  failovers: number; // retries that moved to another endpoint
+  failed: number; // requests that ran out of attempts
+  endpoints: EndpointHealth[];
+};
+
+const LATENCY_SMOOTHING = 0.2;
+
+// JSON-RPC error codes some providers answer rate limits with, over HTTP 200
+const RATE_LIMIT_RPC_CODES = new Set([-32005, 429]);
+
+class HttpStatusError extends Error {
+  constructor(readonly status: number, readonly retryAfterMs?: number) {
+    super(`HTTP ${status}`);
+  }
+}
+
+// 400 and 413 are the request's own fault; another endpoint would answer the same
+const isRequestFault = (e: unknown) => e instanceof HttpStatusError && (e.status === 400 || e.status === 413);
+
+function retryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+type JsonRpcReply = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+const isRateLimited = (reply: any): reply is ethers.JsonRpcError => RATE_LIMIT_RPC_CODES.has(reply?.error?.code);
+
+// A batch counts as rate limited when every entry is; a partly limited batch is retried item by item
+const isRateLimitReply = (json: any) =>
+  Array.isArray(json) ? json.length > 0 && json.every(isRateLimited) : isRateLimited(json);
+
+/** Keeps scheme and host only: providers put API keys in the path or query string. */
+export function redactUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.protocol}//${u.host}${u.pathname.length > 1 || u.search ? "/…" : ""}`;
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+class Endpoint {
+  requests = 0;
+  errors = 0;
+  rateLimited = 0;
+  inFlight = 0;
+  latency: number | null = null;
+  lastError: string | null = null;
+  cooldownUntil = 0;
+  private failures = 0; // consecutive
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(readonly url: string, private readonly opts: PoolOptions) {
+    this.tokens = opts.maxRps;
+  }
+
+  // ms until a request may start here; Infinity while every slot is taken
+  readyIn(now: number): number {
+    if (this.cooldownUntil > now) return this.cooldownUntil - now;
+    if (this.opts.maxConcurrency && this.inFlight >= this.opts.maxConcurrency) return Infinity;
+    if (!this.opts.maxRps) return 0;
+    this.tokens = Math.min(this.opts.maxRps, this.tokens + ((now - this.refilledAt) * this.opts.maxRps) / 1000);
+    this.refilledAt = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 1000) / this.opts.maxRps);
+  }
+
+  take() {
+    if (this.opts.maxRps) this.tokens -= 1;
+    this.inFlight++;
+    this.requests++;
+  }
+
+  succeed(ms: number) {
+    this.failures = 0;
+    this.latency = this.latency === null ? ms : this.latency + LATENCY_SMOOTHING * (ms - this.latency);
+  }
+
+  fail(e: unknown) {
+    this.errors++;
+    this.lastError = e instanceof Error ? e.message : String(e);
+    if (e instanceof HttpStatusError && e.status === 429) this.rateLimited++;
+    if (isRequestFault(e)) return;
+    this.failures++;
+    const backoff = Math.min(this.opts.backoffBaseMs * 2 ** (this.failures - 1), this.opts.backoffMaxMs);
+    const retryAfter = e instanceof HttpStatusError ? e.retryAfterMs ?? 0 : 0;
+    this.cooldownUntil = Date.now() + Math.max(backoff, retryAfter);
+  }
+
+  health(now: number): EndpointHealth {
+    return {
+      url: redactUrl(this.url),
+      requests: this.requests,
+      errors: this.errors,
+      rateLimited: this.rateLimited,
+      inFlight: this.inFlight,
+      avgLatencyMs: this.latency === null ? null : Math.round(this.latency),
+      lastError: this.lastError,
+      coolingDownMs: Math.max(0, this.cooldownUntil - now),
+    };
+  }
+}
+
+/**
+ * Spreads JSON-RPC requests over several HTTP endpoints. Requests go round-robin
+ * to the next endpoint with a free concurrency slot and rate-limit token. A
+ * failure (network error, timeout, 429, 5xx) puts its endpoint in a cooldown
+ * that doubles per consecutive failure, so the retry fails over to the others,
+ * or waits out the backoff when there are none.
+ */
+export class RpcPool {
+  private readonly endpoints: Endpoint[];
+  private cursor = 0;
+  private waiters: (() => void)[] = [];
+  private totals = { requests: 0, retries: 0, failovers: 0, failed: 0 };
+
+  constructor(urls: readonly string[], private readonly opts: PoolOptions) {
+    if (urls.length === 0) throw new Error("The RPC pool needs at least one endpoint");
+    this.endpoints = urls.map(url => new Endpoint(url, opts));
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map(e => e.url);
+  }
+
+  stats(): PoolStats {
+    const now = Date.now();
+    return { ...this.totals, endpoints: this.endpoints.map(e => e.health(now)) };
+  }
+
+  /**
+   * Posts a JSON-RPC payload (single or batch) and returns the parsed reply.
+   * Batch entries answered with a rate-limit error are sent again on their own,
+   * keeping the entries that did get through.
+   */
+  async request(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<JsonRpcReply | JsonRpcReply[]> {
+    this.totals.requests++;
+    let previous: Endpoint | null = null;
+    let pending = payload;
+    const answered: JsonRpcReply[] = [];
+    for (let attempt = 1; ; attempt++) {
+      const endpoint = await this.acquire();
+      if (previous && previous !== endpoint) this.totals.failovers++;
+      const started = Date.now();
+      try {
+        const reply = await this.post(endpoint, pending);
+        const limited = Array.isArray(reply) ? reply.filter(isRateLimited) : [];
+        if (!Array.isArray(reply) || !Array.isArray(pending) || limited.length === 0 || attempt >= this.opts.maxAttempts) {
+          endpoint.succeed(Date.now() - started);
+          return Array.isArray(reply) ? [...answered, ...reply] : reply;
+        }
+        endpoint.fail(new HttpStatusError(429));
+        answered.push(...reply.filter(r => !isRateLimited(r)));
+        const ids = new Set(limited.map(r => r.id));
+        pending = pending.filter(p => ids.has(p.id));
+        console.error(`RPC endpoint ${redactUrl(endpoint.url)} rate limited ${limited.length} of ${reply.length} batched calls, retrying them`);
+        this.totals.retries++;
+        previous = endpoint;
+      } catch (e) {
+        endpoint.fail(e);
+        if (attempt >= this.opts.maxAttempts || isRequestFault(e)) {
+          this.totals.failed++;
+          throw e;
+        }
+        console.error(`RPC request to ${redactUrl(endpoint.url)} failed, retrying:`, e);
+        this.totals.retries++;
+        previous = endpoint;
+      } finally {
+        endpoint.inFlight--;
+        this.wake();
+      }
+    }
+  }
+
+  private async post(endpoint: Endpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<JsonRpcReply | JsonRpcReply[]> {
+    const res = await fetch(endpoint.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(this.opts.timeoutMs),
+    });
+    if (!res.ok) throw new HttpStatusError(res.status, retryAfterMs(res.headers.get("Retry-After")));
+    const json = await res.json();
+    if (isRateLimitReply(json)) throw new HttpStatusError(429);
+    return json;
+  }
+
+  private async acquire(): Promise<Endpoint> {
+    for (;;) {
+      const now = Date.now();
+      let wait = Infinity;
+      for (let i = 0; i < this.endpoints.length; i++) {
+        const index = (this.cursor + i) % this.endpoints.length;
+        const endpoint = this.endpoints[index];
+        const delay = endpoint.readyIn(now);
+        if (delay === 0) {
+          this.cursor = index + 1;
+          endpoint.take();
+          return endpoint;
+        }
+        wait = Math.min(wait, delay);
+      }
+      // Woken by the next finished request, or when a token or cooldown comes due;
+      // whichever comes first cancels the other
+      await new Promise<void>(resolve => {
+        const timer = wait === Infinity ? undefined : setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          resolve();
+        }, wait);
+        const waiter = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        this.waiters.push(waiter);
+      });
+    }
+  }
+
+  private wake() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/** A JsonRpcProvider that sends through an RpcPool instead of a single URL. */
+export class PooledJsonRpcProvider extends ethers.JsonRpcProvider {
+  constructor(readonly pool: RpcPool, network?: ethers.Networkish, options?: ethers.JsonRpcApiProviderOptions) {
+    super(pool.urls[0], network, options);
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const reply = await this.pool.request(payload);
+    // ethers reads errors out of the same array, despite the narrower signature
+    return (Array.isArray(reply) ? reply : [reply]) as ethers.JsonRpcResult[];
+  }
+}
@@ -0,0 +1,83 @@
+import type { Log } from "ethers";
+
+// Anything with ethers' Provider#getLogs signature.
+export type LogSource = {
+  getLogs(filter: { topics?: any[]; address?: string | string[]; fromBlock: number; toBlock: number }): Promise<Log[]>;
+};
+
+export type ScanOptions = {
+  initialChunk: number;
+  maxChunk: number;
+  isCancelled?: () => boolean;
+  attempts?: number; // tries per chunk before the scan fails, default 1
+  retryDelayMs?: number; // wait before retrying a failed chunk, doubled per retry
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorText = (e: any) =>
+  `${e?.error?.message ?? ""} ${e?.info?.error?.message ?? ""} ${e?.shortMessage ?? ""} ${e?.message ?? ""}`.toLowerCase();
+
+// HTTP 429 (from ethers or the RPC pool) or a JSON-RPC error saying the same
+export const isRateLimitError = (e: any) => {
+  const codes = [e?.status, e?.response?.statusCode, e?.error?.code, e?.info?.error?.code];
+  return codes.some(c => c === 429 || c === -32005) || /rate.?limit|too many requests|\b429\b/.test(errorText(e));
+};
+
+// RPCs word this differently ("block range too large", "query returned more than 10000 results", ...)
+export const isRangeTooLargeError = (e: any) =>
+  /range|too large|too many|more than|exceed|limit/.test(errorText(e));
+
+/**
+ * Pages through [from, to] with getLogs, halving the chunk when the RPC rejects a range
+ * and doubling it again after each success; rate limits are retried like other failures. `onChunk` is awaited before the next request;
+ * when fetching or processing a chunk fails it is retried from the same block, so a
+ * caller that checkpoints in `onChunk` never skips past it. Returns false if cancelled.
+ */
+export async function scanLogs(
+  source: LogSource,
+  filter: { topics?: any[]; address?: string | string[] },
+  from: number,
+  to: number,
+  onChunk: (logs: Log[], chunkEnd: number, chunkStart: number) => Promise<void> | void,
+  opts: ScanOptions,
+): Promise<boolean> {
+  let chunk = opts.initialChunk;
+  let cursor = from;
+  let failures = 0; // of the current chunk
+  const retryLater = async (e: unknown, what: string) => {
+    if (++failures >= (opts.attempts ?? 1)) throw e;
+    console.error(`${what} failed, retrying:`, e);
+    await sleep((opts.retryDelayMs ?? 0) * 2 ** (failures - 1));
+  };
+
+  while (cursor <= to) {
+    if (opts.isCancelled?.()) return false;
+    const end = Math.min(cursor + chunk - 1, to);
+    let logs: Log[];
+    try {
+      logs = await source.getLogs({ ...filter, fromBlock: cursor, toBlock: end });
+    } catch (e) {
+      // A rate limit reads like a range error ("limit exceeded") but needs a backoff, not a smaller range
+      if (chunk > 1 && !isRateLimitError(e) && isRangeTooLargeError(e)) {
+        chunk = Math.max(1, Math.floor(chunk / 2));
+        continue;
+      }
+      await retryLater(e, `Fetching blocks ${cursor}-${end}`);
+      continue;
+    }
+
+    if (opts.isCancelled?.()) return false;
+    try {
+      await onChunk(logs, end, cursor);
+    } catch (e) {
+      await retryLater(e, `Processing blocks ${cursor}-${end}`);
+      continue;
+    }
+
+    failures = 0;
+    cursor = end + 1;
+    chunk = Math.min(chunk * 2, opts.maxChunk);
+  }
+  return true;
+}
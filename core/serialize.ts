@@ -0,0 +1,258 @@
+import { ethers } from "ethers";
+import { TokenType, MintItem, TransferItem, ActivityItem, TransferKind, CollSummary, ContractMeta, MatchRule } from '../types';
+import { isTransfer } from './aggregator';
+
+export type ExportFormat = "csv" | "json" | "ndjson";
+
+// Flat, spreadsheet-friendly rows. Addresses and hashes are always full-length.
+// Transfers and burns share the mint row layout, told apart by `kind`.
+export type MintRecord = {
+  kind: "mint" | TransferKind;
+  blockNumber: number;
+  timestamp: string; // ISO 8601, empty when unknown
+  txHash: string;
+  logIndex: number;
+  subIndex: number | "";
+  contract: string;
+  contractName: string;
+  contractSymbol: string;
+  contractDecimals: number | "";
+  from: string; // empty for mints
+  to: string;
+  type: TokenType;
+  tokenId: string;
+  amount: string; // raw integer
+  amountFormatted: string; // formatUnits for ERC-20, raw count for ERC-1155
+  txValue: string; // wei, empty when unknown
+  txFrom: string; // tx sender, empty when unknown
+  matchedBy: MatchRule | "";
+};
+
+export type CollectionRecord = {
+  address: string;
+  type: TokenType;
+  name: string;
+  symbol: string;
+  decimals: number | "";
+  totalMintEvents: number;
+  uniqueTokens: number;
+  tokenIds: string[];
+  burnEvents: number;
+  circulatingSupply: string; // raw integer
+  holders: number;
+};
+
+export const MINT_COLUMNS: (keyof MintRecord)[] = [
+  "kind", "blockNumber", "timestamp", "txHash", "logIndex", "subIndex", "contract", "contractName",
+  "contractSymbol", "contractDecimals", "from", "to", "type", "tokenId", "amount", "amountFormatted",
+  "txValue", "txFrom", "matchedBy",
+];
+
+export const COLLECTION_COLUMNS: (keyof CollectionRecord)[] = [
+  "address", "type", "name", "symbol", "decimals", "totalMintEvents", "uniqueTokens", "tokenIds",
+  "burnEvents", "circulatingSupply", "holders",
+];
+
+export function formatMintAmount(it: MintItem, decimals?: number): string {
+  if (!it.amount) return "";
+  if (it.type !== TokenType.ERC20) return it.amount;
+  try {
+    return ethers.formatUnits(it.amount, decimals ?? 18);
+  } catch {
+    return it.amount;
+  }
+}
+
+export function mintToRecord(it: ActivityItem, meta?: ContractMeta): MintRecord {
+  const transfer = isTransfer(it) ? it : null;
+  return {
+    kind: transfer?.kind ?? "mint",
+    blockNumber: it.blockNumber,
+    timestamp: it.timestamp ? new Date(it.timestamp * 1000).toISOString() : "",
+    txHash: it.txHash,
+    logIndex: it.logIndex,
+    subIndex: it.subIndex ?? "",
+    contract: it.contract,
+    contractName: meta?.name ?? "",
+    contractSymbol: meta?.symbol ?? "",
+    contractDecimals: meta?.decimals ?? "",
+    from: transfer?.from ?? "",
+    to: it.to,
+    type: it.type,
+    tokenId: it.tokenId ?? "",
+    amount: it.amount ?? "",
+    amountFormatted: formatMintAmount(it, meta?.decimals),
+    txValue: isTransfer(it) ? "" : it.txValue ?? "",
+    txFrom: isTransfer(it) ? "" : it.txFrom ?? "",
+    matchedBy: isTransfer(it) ? "" : it.matchedBy ?? "",
+  };
+}
+
+export function summaryToRecord(s: CollSummary): CollectionRecord {
+  return {
+    address: s.address,
+    type: s.type,
+    name: s.name ?? "",
+    symbol: s.symbol ?? "",
+    decimals: s.decimals ?? "",
+    totalMintEvents: s.totalMintEvents,
+    uniqueTokens: s.uniqueTokens,
+    tokenIds: [...s.tokenIds],
+    burnEvents: s.burnEvents,
+    circulatingSupply: s.circulatingSupply.toString(),
+    holders: s.holders,
+  };
+}
+
+const csvCell = (v: unknown) => {
+  const str = Array.isArray(v) ? v.join(";") : String(v ?? "");
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export function toCsv<T extends object>(rows: readonly T[], columns: readonly (keyof T)[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map(c => csvCell(row[c])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function serialize<T extends object>(rows: readonly T[], columns: readonly (keyof T)[], format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return toCsv(rows, columns);
+    case "json":
+      return JSON.stringify(rows, null, 2);
+    case "ndjson":
+      return rows.map(r => JSON.stringify(r)).join("\n") + "\n";
+  }
+}
+
+// --- Import ---
+
+export type ImportedSession = {
+  mints: MintItem[];
+  transfers: TransferItem[];
+  meta: Map<string, ContractMeta>;
+};
+
+// RFC 4180-style parser: quoted cells, doubled quotes, CRLF or LF
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell); cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell); cell = "";
+      rows.push(row); row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  const [header, ...body] = rows.filter(r => r.length > 1 || r[0] !== "");
+  if (!header) return [];
+  return body.map(r => Object.fromEntries(header.map((h, i) => [h, r[i] ?? ""])));
+}
+
+const isTokenType = (v: unknown): v is TokenType => Object.values(TokenType).includes(v as TokenType);
+
+// Exports from before transfers were tracked have no `kind` and are all mints
+function recordToActivity(r: Record<string, any>): ActivityItem | null {
+  if (!r.txHash || !r.contract || !r.to || !isTokenType(r.type)) return null;
+  const blockNumber = Number(r.blockNumber);
+  const logIndex = Number(r.logIndex);
+  if (!Number.isInteger(blockNumber) || !Number.isInteger(logIndex)) return null;
+  const ts = r.timestamp ? Date.parse(r.timestamp) : NaN;
+  const base = {
+    blockNumber,
+    txHash: String(r.txHash),
+    logIndex,
+    subIndex: r.subIndex === "" || r.subIndex == null ? undefined : Number(r.subIndex),
+    contract: ethers.getAddress(String(r.contract)),
+    to: ethers.getAddress(String(r.to)),
+    type: r.type,
+    tokenId: r.tokenId === "" || r.tokenId == null ? undefined : String(r.tokenId),
+    amount: r.amount === "" || r.amount == null ? undefined : String(r.amount),
+    timestamp: Number.isNaN(ts) ? undefined : Math.floor(ts / 1000),
+  };
+  if (r.kind === "transfer" || r.kind === "burn") {
+    if (!r.from) return null;
+    return { ...base, kind: r.kind, from: ethers.getAddress(String(r.from)) };
+  }
+  return {
+    ...base,
+    txValue: r.txValue === "" || r.txValue == null ? undefined : String(r.txValue),
+    txFrom: r.txFrom ? String(r.txFrom).toLowerCase() : undefined,
+    matchedBy: r.matchedBy === "minter" || r.matchedBy === "registry" ? r.matchedBy : undefined,
+  };
+}
+
+// Metadata travels either on collection records or denormalized on mint rows
+function collectMeta(meta: Map<string, ContractMeta>, address: string, name?: string, symbol?: string, decimals?: unknown) {
+  const cur = meta.get(address) ?? {};
+  meta.set(address, {
+    name: cur.name ?? (name || undefined),
+    symbol: cur.symbol ?? (symbol || undefined),
+    decimals: cur.decimals ?? (decimals === "" || decimals == null ? undefined : Number(decimals)),
+  });
+}
+
+/**
+ * Reads a file produced by the exporter. Mint and transfer rows become activity
+ * items; collection rows only contribute metadata, since summaries are rebuilt
+ * from the activity.
+ */
+export function parseSession(text: string, format: ExportFormat): ImportedSession {
+  let records: Record<string, any>[];
+  switch (format) {
+    case "csv":
+      records = parseCsv(text);
+      break;
+    case "json": {
+      const parsed = JSON.parse(text);
+      records = Array.isArray(parsed) ? parsed : [...(parsed.mints ?? []), ...(parsed.collections ?? [])];
+      break;
+    }
+    case "ndjson":
+      records = text.split(/\r?\n/).filter(l => l.trim() !== "").map(l => JSON.parse(l));
+      break;
+  }
+
+  const mints: MintItem[] = [];
+  const transfers: TransferItem[] = [];
+  const meta = new Map<string, ContractMeta>();
+  for (const r of records) {
+    if (r.txHash) {
+      const it = recordToActivity(r);
+      if (!it) throw new Error(`Invalid mint record: ${JSON.stringify(r)}`);
+      if (isTransfer(it)) transfers.push(it);
+      else mints.push(it);
+      collectMeta(meta, it.contract, r.contractName, r.contractSymbol, r.contractDecimals);
+    } else if (r.address && "totalMintEvents" in r) {
+      collectMeta(meta, ethers.getAddress(String(r.address)), r.name, r.symbol, r.decimals);
+    }
+  }
+  return { mints, transfers, meta };
+}
+
+export function detectFormat(fileName: string): ExportFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv" || ext === "json" || ext === "ndjson") return ext;
+  if (ext === "jsonl") return "ndjson";
+  return null;
+}
@@ -0,0 +1,128 @@
+import { ethers } from "ethers";
+import { TokenType, TokenMetadata, TokenAttribute, GatewaySettings } from '../types';
+import { TOKEN_URI_ABI } from '../constants';
+import { LruCache } from './lru';
+
+// An answer a retry would not change: the token has no URI, or its document is not there or not JSON
+class NoMetadataError extends Error {}
+
+// A revert with data, an empty return or a malformed document; timeouts, 5xx and rate limits are not
+const isDefinitive = (e: unknown) =>
+  e instanceof NoMetadataError || e instanceof SyntaxError || e instanceof URIError ||
+  ethers.isError(e, "BAD_DATA") || (ethers.isError(e, "CALL_EXCEPTION") && e.data != null);
+
+const withSlash = (url: string) => (url.endsWith("/") ? url : `${url}/`);
+
+/** Rewrites ipfs:// and ar:// URIs through the configured gateways; anything else is returned as is. */
+export function resolveGatewayUrl(uri: string, gateways: GatewaySettings): string {
+  const trimmed = uri.trim();
+  if (trimmed.startsWith("ipfs://")) {
+    // Some contracts emit the redundant ipfs://ipfs/<cid> form
+    return withSlash(gateways.ipfs) + trimmed.slice("ipfs://".length).replace(/^ipfs\//, "");
+  }
+  if (trimmed.startsWith("ar://")) {
+    return withSlash(gateways.arweave) + trimmed.slice("ar://".length);
+  }
+  return trimmed;
+}
+
+/** ERC-1155 `{id}` substitution: lowercase hex, zero-padded to 64 characters, no 0x prefix. */
+export function substituteTokenId(uri: string, tokenId: string): string {
+  if (!uri.includes("{id}")) return uri;
+  return uri.replace(/\{id\}/g, BigInt(tokenId).toString(16).padStart(64, "0"));
+}
+
+// Returns the JSON text behind a data: URI, or null if it is not one
+function decodeDataUri(uri: string): string | null {
+  const match = /^data:([^,]*?),(.*)$/s.exec(uri);
+  if (!match) return null;
+  const [, params, payload] = match;
+  if (/;base64$/i.test(params)) {
+    return ethers.toUtf8String(ethers.decodeBase64(payload));
+  }
+  return decodeURIComponent(payload);
+}
+
+function normalizeAttributes(raw: unknown): TokenAttribute[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((a) => a && (typeof a.value === "string" || typeof a.value === "number"))
+    .map((a) => ({ trait_type: typeof a.trait_type === "string" ? a.trait_type : undefined, value: a.value }));
+}
+
+function normalizeMetadata(json: any, gateways: GatewaySettings): TokenMetadata {
+  let image: string | undefined = json?.image ?? json?.image_url;
+  if (!image && typeof json?.image_data === "string") {
+    image = `data:image/svg+xml;utf8,${encodeURIComponent(json.image_data)}`;
+  }
+  return {
+    name: typeof json?.name === "string" ? json.name : undefined,
+    description: typeof json?.description === "string" ? json.description : undefined,
+    image: typeof image === "string" ? resolveGatewayUrl(image, gateways) : undefined,
+    attributes: normalizeAttributes(json?.attributes),
+  };
+}
+
+async function fetchJson(url: string, timeoutMs: number): Promise<any> {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { signal: ctrl.signal });
+    if (!res.ok) {
+      const gone = res.status >= 400 && res.status < 500 && res.status !== 408 && res.status !== 429;
+      throw new (gone ? NoMetadataError : Error)(`HTTP ${res.status} for ${url}`);
+    }
+    return await res.json();
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/**
+ * Resolves ERC-721 `tokenURI` / ERC-1155 `uri` metadata. Results are cached per
+ * contract+tokenId, and so is null for tokens that definitely have none; a
+ * transient failure resolves to null uncached, so a later call tries again.
+ * Concurrent callers share the in-flight request.
+ */
+export class TokenMetadataResolver {
+  private cache: LruCache<string, Promise<TokenMetadata | null>>;
+
+  constructor(
+    private readonly runner: ethers.ContractRunner,
+    private readonly gateways: GatewaySettings,
+    cacheSize: number,
+    private readonly timeoutMs: number,
+  ) {
+    this.cache = new LruCache(cacheSize);
+  }
+
+  resolve(contract: string, type: TokenType, tokenId: string): Promise<TokenMetadata | null> {
+    if (type === TokenType.ERC20) return Promise.resolve(null);
+    const key = `${contract.toLowerCase()}:${tokenId}`;
+    let p = this.cache.get(key);
+    if (!p) {
+      const pending: Promise<TokenMetadata | null> = this.load(contract, type, tokenId).catch((e) => {
+        console.warn(`Token metadata unavailable for ${contract} #${tokenId}:`, e);
+        if (!isDefinitive(e) && this.cache.get(key) === pending) this.cache.delete(key);
+        return null;
+      });
+      this.cache.set(key, pending);
+      p = pending;
+    }
+    return p;
+  }
+
+  private async load(contract: string, type: TokenType, tokenId: string): Promise<TokenMetadata> {
+    const c = new ethers.Contract(contract, TOKEN_URI_ABI, this.runner);
+    const raw: string = type === TokenType.ERC721 ? await c.tokenURI(tokenId) : await c.uri(tokenId);
+    const uri = substituteTokenId(raw.trim(), tokenId);
+    if (uri === "") throw new NoMetadataError("empty token URI");
+
+    const inline = decodeDataUri(uri);
+    if (inline !== null) return normalizeMetadata(JSON.parse(inline), this.gateways);
+    if (uri.startsWith("{")) return normalizeMetadata(JSON.parse(uri), this.gateways);
+
+    const json = await fetchJson(resolveGatewayUrl(uri, this.gateways), this.timeoutMs);
+    return normalizeMetadata(json, this.gateways);
+  }
+}
@@ -0,0 +1,39 @@
+import { ethers } from "ethers";
+import { MintItem } from '../types';
+import { decodeMintLog } from './decoder';
+
+export type TxBreakdown = {
+  hash: string;
+  blockNumber: number | null;
+  from: string; // the sender, which may differ from the mint recipient
+  to: string | null;
+  value: bigint; // native currency paid with the tx
+  gasUsed?: bigint;
+  effectiveGasPrice?: bigint;
+  fee?: bigint;
+  status?: number | null; // 1 success, 0 reverted
+  mints: MintItem[]; // every mint decoded from the receipt's logs
+};
+
+/** Loads a transaction and its receipt, decoding every mint log the same way the feed does. */
+export async function fetchTxBreakdown(provider: ethers.Provider, txHash: string): Promise<TxBreakdown> {
+  const [tx, receipt] = await Promise.all([
+    provider.getTransaction(txHash),
+    provider.getTransactionReceipt(txHash),
+  ]);
+  if (!tx) throw new Error(`Transaction ${txHash} not found`);
+
+  const mints = receipt ? receipt.logs.flatMap(log => decodeMintLog(log)) : [];
+  return {
+    hash: tx.hash,
+    blockNumber: tx.blockNumber,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    gasUsed: receipt?.gasUsed,
+    effectiveGasPrice: receipt?.gasPrice,
+    fee: receipt?.fee,
+    status: receipt?.status,
+    mints,
+  };
+}
@@ -0,0 +1,63 @@
+import { ethers } from "ethers";
+import { NetworkConfig } from '../types';
+
+// The slice of EIP-1193 the app uses; injected wallets expose it as `window.ethereum`
+export type Eip1193Provider = {
+  request(args: { method: string; params?: unknown[] }): Promise<any>;
+  on?(event: string, handler: (...args: any[]) => void): void;
+  removeListener?(event: string, handler: (...args: any[]) => void): void;
+};
+
+// EIP-3085: the wallet does not know the chain yet
+const UNRECOGNIZED_CHAIN = 4902;
+
+export function getInjectedWallet(): Eip1193Provider | null {
+  return (window as any).ethereum ?? null;
+}
+
+/** Prompts for account access and returns the selected account, checksummed. */
+export async function connectWallet(wallet: Eip1193Provider): Promise<string> {
+  const accounts: string[] = await wallet.request({ method: "eth_requestAccounts" });
+  if (!accounts?.length) throw new Error("The wallet did not share an account");
+  return ethers.getAddress(accounts[0]);
+}
+
+export async function getWalletChainId(wallet: Eip1193Provider): Promise<number> {
+  return Number(await wallet.request({ method: "eth_chainId" }));
+}
+
+/** Asks the wallet to switch to `network`, offering to add it first if the wallet has never seen it. */
+export async function switchWalletChain(wallet: Eip1193Provider, network: NetworkConfig) {
+  const chainId = ethers.toQuantity(network.chainId);
+  try {
+    await wallet.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (e: any) {
+    if (e?.code !== UNRECOGNIZED_CHAIN) throw e;
+    const symbol = network.nativeSymbol ?? "ETH";
+    await wallet.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        rpcUrls: [network.httpUrl],
+        blockExplorerUrls: [network.explorerUrl],
+        nativeCurrency: { name: symbol, symbol, decimals: 18 },
+      }],
+    });
+  }
+}
+
+/** Follows account and chain changes; returns an unsubscribe function. */
+export function watchWallet(
+  wallet: Eip1193Provider,
+  handlers: { onAccounts: (accounts: string[]) => void; onChain: (chainId: number) => void },
+): () => void {
+  const onAccounts = (accounts: string[]) => handlers.onAccounts(accounts.map(a => ethers.getAddress(a)));
+  const onChain = (chainId: string) => handlers.onChain(Number(chainId));
+  wallet.on?.("accountsChanged", onAccounts);
+  wallet.on?.("chainChanged", onChain);
+  return () => {
+    wallet.removeListener?.("accountsChanged", onAccounts);
+    wallet.removeListener?.("chainChanged", onChain);
+  };
+}
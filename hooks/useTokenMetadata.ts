@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { TokenType, TokenMetadata } from '../types';
+import { TokenMetadataResolver } from '../core/tokenMetadata';
+
+export type TokenMetadataState =
+  | { status: "loading" }
+  | { status: "ready"; metadata: TokenMetadata }
+  | { status: "failed" };
+
+export function useTokenMetadata(
+  resolver: TokenMetadataResolver | null,
+  contract: string,
+  type: TokenType,
+  tokenId?: string,
+): TokenMetadataState {
+  const [state, setState] = useState<TokenMetadataState>({ status: "loading" });
+
+  useEffect(() => {
+    if (!resolver || tokenId === undefined || type === TokenType.ERC20) {
+      setState({ status: "failed" });
+      return;
+    }
+    let alive = true;
+    setState({ status: "loading" });
+    resolver.resolve(contract, type, tokenId).then((metadata) => {
+      if (!alive) return;
+      setState(metadata ? { status: "ready", metadata } : { status: "failed" });
+    });
+    return () => {
+      alive = false;
+    };
+  }, [resolver, contract, type, tokenId]);
+
+  return state;
+}
@@ -0,0 +1,138 @@
+import { NetworkConfig, RpcSettings, FactoryConfig } from './types';
+
+const env = (import.meta as any).env ?? {};
+
+// Endpoint env vars take a comma-separated list; the first entry is the primary.
+// Keyed provider URLs belong there (or in the diagnostics panel), never in source.
+const urlList = (raw?: string) => (raw ?? "").split(",").map(u => u.trim()).filter(Boolean);
+const monadHttp = urlList(env.VITE_HTTP_MONAD_TESTNET);
+const monadWs = urlList(env.VITE_WS_MONAD_TESTNET);
+
+// NFTS2ME collection discovery: the known Monad testnet deployments, unless the env replaces them
+// with a JSON array of FactoryConfig (with `deployBlock` to backfill past collections) and a
+// comma-separated implementation list; "[]" and "" turn either rule off
+export const MONAD_TESTNET_FACTORIES: FactoryConfig[] = [
+  {
+    address: "0x00000000001594C61dD8a6804da9AB58eD2483ce",
+    event: "event CollectionCreated(address indexed collection, address indexed owner)",
+  },
+];
+export const MONAD_TESTNET_IMPLEMENTATIONS: string[] = [];
+const monadFactories = env.VITE_NFTS2ME_FACTORIES_MONAD_TESTNET === undefined
+  ? MONAD_TESTNET_FACTORIES
+  : parseFactories(env.VITE_NFTS2ME_FACTORIES_MONAD_TESTNET);
+const monadImplementations = env.VITE_NFTS2ME_IMPLEMENTATIONS_MONAD_TESTNET === undefined
+  ? MONAD_TESTNET_IMPLEMENTATIONS
+  : urlList(env.VITE_NFTS2ME_IMPLEMENTATIONS_MONAD_TESTNET);
+
+// --- Network Registry ---
+export const NETWORKS: NetworkConfig[] = [
+  {
+    id: "monad-testnet",
+    chainId: 10143,
+    name: "Monad Testnet",
+    // Config: set via Vite env or fall back to the public endpoints
+    httpUrl: monadHttp[0] ?? "https://testnet-rpc.monad.xyz",
+    extraHttpUrls: monadHttp.slice(1),
+    wsUrl: monadWs[0] ?? "wss://testnet-rpc.monad.xyz",
+    extraWsUrls: monadWs.slice(1),
+    explorerUrl: "https://testnet.monadexplorer.com",
+    nativeSymbol: "MON",
+    mintContracts: ["0x00000000009a1E02f00E280dcfA4C81c55724212"],
+    factories: monadFactories,
+    implementations: monadImplementations,
+    blockTimeMs: 500,
+  },
+  // More networks can be added without a code change through VITE_NETWORKS,
+  // a JSON array of NetworkConfig objects.
+  ...parseExtraNetworks(env.VITE_NETWORKS),
+];
+
+export const DEFAULT_NETWORK_ID = NETWORKS[0].id;
+
+const STORAGE_KEY = "nfts2me-tracker:network";
+const URL_PARAM = "network";
+
+function parseExtraNetworks(raw?: string): NetworkConfig[] {
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw);
+    return Array.isArray(list) ? list.filter(isNetworkConfig) : [];
+  } catch (e) {
+    console.error("Invalid VITE_NETWORKS:", e);
+    return [];
+  }
+}
+
+const isFactoryConfig = (f: any): f is FactoryConfig => typeof f?.address === "string" && typeof f?.event === "string";
+
+function parseFactories(raw?: string): FactoryConfig[] {
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw);
+    return Array.isArray(list) ? list.filter(isFactoryConfig) : [];
+  } catch (e) {
+    console.error("Invalid NFTS2ME factory config:", e);
+    return [];
+  }
+}
+
+/** Parses a factory list given on the command line, throwing where the env parser only logs. */
+export function parseFactoryList(raw: string): FactoryConfig[] {
+  let list: unknown;
+  try {
+    list = JSON.parse(raw);
+  } catch {
+    list = null;
+  }
+  if (!Array.isArray(list) || !list.every(isFactoryConfig)) {
+    throw new Error('--factories must be a JSON array of { "address", "event", "collectionArg"?, "deployBlock"? }');
+  }
+  return list;
+}
+
+function isNetworkConfig(n: any): n is NetworkConfig {
+  return !!n && typeof n.id === "string" && typeof n.chainId === "number" && typeof n.name === "string"
+    && typeof n.httpUrl === "string" && typeof n.explorerUrl === "string" && Array.isArray(n.mintContracts)
+    && typeof n.blockTimeMs === "number";
+}
+
+export function getNetwork(id: string | null | undefined): NetworkConfig {
+  return NETWORKS.find(n => n.id === id) ?? NETWORKS[0];
+}
+
+/** The URL wins over localStorage so shared links open on the right network. */
+export function loadSelectedNetworkId(): string {
+  const fromUrl = new URLSearchParams(window.location.search).get(URL_PARAM);
+  if (fromUrl && NETWORKS.some(n => n.id === fromUrl)) return fromUrl;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && NETWORKS.some(n => n.id === stored)) return stored;
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+  return DEFAULT_NETWORK_ID;
+}
+
+export function saveSelectedNetworkId(id: string) {
+  const params = new URLSearchParams(window.location.search);
+  params.set(URL_PARAM, id);
+  window.history.replaceState(null, "", `${window.location.pathname}?${params}${window.location.hash}`);
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+/** Every endpoint to use for a network: the user's own first, then the configured ones. */
+export function networkEndpoints(network: NetworkConfig, settings: RpcSettings): { http: string[]; ws: string[] } {
+  const unique = (urls: (string | undefined)[]) => [...new Set(urls.filter((u): u is string => !!u))];
+  return {
+    http: unique([...settings.httpUrls, network.httpUrl, ...(network.extraHttpUrls ?? [])]),
+    ws: unique([...settings.wsUrls, network.wsUrl, ...(network.extraWsUrls ?? [])]),
+  };
+}
+
+export const nfts2meUrl = (network: NetworkConfig, contract: string) =>
+  `https://${contract.toLowerCase()}_${network.chainId}.nfts2.me/?widget=classic&hideBanner=true`;
@@ -0,0 +1,354 @@
+import { ethers } from "ethers";
+import { ActivityItem, ActivityMode, ContractMeta, RetentionSettings, GatewaySettings, AlertSettings, RiskOverrides, RpcSettings } from './types';
+import { mintKey } from './core/aggregator';
+import { RegistryEntry } from './core/registry';
+import { RPC_MAX_RPS, RPC_MAX_CONCURRENCY } from './constants';
+
+const DB_NAME = "nfts2me-tracker";
+const DB_VERSION = 2;
+const RETENTION_KEY = "nfts2me-tracker:retention";
+const GATEWAYS_KEY = "nfts2me-tracker:gateways";
+const ALERTS_KEY = "nfts2me-tracker:alerts";
+const API_URL_KEY = "nfts2me-tracker:api-url";
+const ACTIVITY_MODE_KEY = "nfts2me-tracker:activity";
+const WALLET_KEY = "nfts2me-tracker:wallet";
+const RISK_OVERRIDES_KEY = "nfts2me-tracker:risk-overrides";
+const RPC_SETTINGS_KEY = "nfts2me-tracker:rpc";
+
+export const DEFAULT_RETENTION: RetentionSettings = { maxRows: 50000, maxAgeDays: 30 };
+export const DEFAULT_GATEWAYS: GatewaySettings = { ipfs: "https://ipfs.io/ipfs/", arweave: "https://arweave.net/" };
+export const DEFAULT_RPC_SETTINGS: RpcSettings = { httpUrls: [], wsUrls: [], maxRps: RPC_MAX_RPS, maxConcurrency: RPC_MAX_CONCURRENCY };
+export const DEFAULT_ALERTS: AlertSettings = {
+  watchedContracts: [],
+  watchedWallets: [],
+  newCollection: false,
+  velocity: { enabled: true, mints: 50, minutes: 5 },
+  walletMints: true,
+  browserNotifications: false,
+  webhookUrl: "",
+};
+
+type StoredMint = ActivityItem & { key: string; networkId: string };
+type StoredMeta = { key: string; networkId: string; address: string; meta: ContractMeta };
+type StoredCheckpoint = { networkId: string; blockNumber: number };
+type StoredRegistryEntry = RegistryEntry & { key: string; networkId: string };
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Every row of one network, in block order
+const networkRange = (networkId: string, fromBlock = -Infinity) =>
+  IDBKeyRange.bound([networkId, fromBlock], [networkId, Infinity]);
+
+/**
+ * IndexedDB persistence for mint history, with four stores:
+ * mints (by txHash+logIndex+subIndex, transfers and burns included), contract
+ * metadata, a per-network "last processed block" checkpoint, and the NFTS2ME
+ * collection registry.
+ */
+export class MintStore {
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static async open(): Promise<MintStore> {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      if (e.oldVersion < 1) {
+        const mints = db.createObjectStore("mints", { keyPath: "key" });
+        mints.createIndex("networkBlock", ["networkId", "blockNumber"]);
+        mints.createIndex("networkTime", ["networkId", "timestamp"]);
+        const meta = db.createObjectStore("meta", { keyPath: "key" });
+        meta.createIndex("network", "networkId");
+        db.createObjectStore("checkpoints", { keyPath: "networkId" });
+      }
+      if (e.oldVersion < 2) {
+        db.createObjectStore("registry", { keyPath: "key" }).createIndex("network", "networkId");
+      }
+    };
+    return new MintStore(await request(req));
+  }
+
+  async putMints(networkId: string, items: readonly ActivityItem[]) {
+    if (items.length === 0) return;
+    const tx = this.db.transaction("mints", "readwrite");
+    const store = tx.objectStore("mints");
+    for (const it of items) {
+      store.put({ ...it, key: `${networkId}:${mintKey(it)}`, networkId } satisfies StoredMint);
+    }
+    await done(tx);
+  }
+
+  async loadMints(networkId: string): Promise<ActivityItem[]> {
+    const tx = this.db.transaction("mints", "readonly");
+    const rows = await request(tx.objectStore("mints").index("networkBlock").getAll(networkRange(networkId)));
+    return (rows as StoredMint[]).map(({ key, networkId: _, ...it }) => it);
+  }
+
+  /** Deletes `fromBlock` and everything after it, e.g. blocks orphaned by a reorg. */
+  async deleteMintsFrom(networkId: string, fromBlock: number) {
+    const tx = this.db.transaction("mints", "readwrite");
+    const index = tx.objectStore("mints").index("networkBlock");
+    await this.deleteWhere(index.openCursor(networkRange(networkId, fromBlock)));
+    await done(tx);
+  }
+
+  async putMeta(networkId: string, address: string, meta: ContractMeta) {
+    const tx = this.db.transaction("meta", "readwrite");
+    tx.objectStore("meta").put({ key: `${networkId}:${address}`, networkId, address, meta } satisfies StoredMeta);
+    await done(tx);
+  }
+
+  async loadMeta(networkId: string): Promise<Map<string, ContractMeta>> {
+    const tx = this.db.transaction("meta", "readonly");
+    const rows = await request(tx.objectStore("meta").index("network").getAll(networkId));
+    return new Map((rows as StoredMeta[]).map(r => [r.address, r.meta]));
+  }
+
+  async getCheckpoint(networkId: string): Promise<number | null> {
+    const tx = this.db.transaction("checkpoints", "readonly");
+    const row = await request(tx.objectStore("checkpoints").get(networkId)) as StoredCheckpoint | undefined;
+    return row?.blockNumber ?? null;
+  }
+
+  async setCheckpoint(networkId: string, blockNumber: number) {
+    const tx = this.db.transaction("checkpoints", "readwrite");
+    tx.objectStore("checkpoints").put({ networkId, blockNumber } satisfies StoredCheckpoint);
+    await done(tx);
+  }
+
+  // How far the factory backfill got, kept next to the network's checkpoint under its own key
+  getRegistryCheckpoint(networkId: string): Promise<number | null> {
+    return this.getCheckpoint(`${networkId}:registry`);
+  }
+
+  setRegistryCheckpoint(networkId: string, blockNumber: number) {
+    return this.setCheckpoint(`${networkId}:registry`, blockNumber);
+  }
+
+  async putRegistryEntries(networkId: string, entries: readonly RegistryEntry[]) {
+    if (entries.length === 0) return;
+    const tx = this.db.transaction("registry", "readwrite");
+    const store = tx.objectStore("registry");
+    for (const e of entries) {
+      store.put({ ...e, key: `${networkId}:${e.address.toLowerCase()}`, networkId } satisfies StoredRegistryEntry);
+    }
+    await done(tx);
+  }
+
+  async loadRegistry(networkId: string): Promise<RegistryEntry[]> {
+    const tx = this.db.transaction("registry", "readonly");
+    const rows = await request(tx.objectStore("registry").index("network").getAll(networkId));
+    return (rows as StoredRegistryEntry[]).map(({ key, networkId: _, ...e }) => e);
+  }
+
+  /** Applies retention: drops rows older than `maxAgeDays`, then the oldest rows beyond `maxRows`. */
+  async prune(networkId: string, retention: RetentionSettings) {
+    const tx = this.db.transaction("mints", "readwrite");
+    const store = tx.objectStore("mints");
+    if (retention.maxAgeDays > 0) {
+      const cutoff = Math.floor(Date.now() / 1000) - retention.maxAgeDays * 86400;
+      const range = IDBKeyRange.bound([networkId, 0], [networkId, cutoff], false, true);
+      // Rows without a timestamp are missing from networkTime, so the age is applied by block:
+      // everything up to the newest expired row's block goes
+      const newestExpired = await request(store.index("networkTime").openCursor(range, "prev"));
+      if (newestExpired) {
+        const { blockNumber } = newestExpired.value as StoredMint;
+        const expired = IDBKeyRange.bound([networkId, -Infinity], [networkId, blockNumber]);
+        await this.deleteWhere(store.index("networkBlock").openCursor(expired));
+      }
+    }
+    if (retention.maxRows > 0) {
+      const index = store.index("networkBlock");
+      let excess = (await request(index.count(networkRange(networkId)))) - retention.maxRows;
+      if (excess > 0) {
+        await this.deleteWhere(index.openCursor(networkRange(networkId)), () => excess-- > 0);
+      }
+    }
+    await done(tx);
+  }
+
+  async clear(networkId: string) {
+    const tx = this.db.transaction(["mints", "meta", "checkpoints", "registry"], "readwrite");
+    await this.deleteWhere(tx.objectStore("mints").index("networkBlock").openCursor(networkRange(networkId)));
+    await this.deleteWhere(tx.objectStore("meta").index("network").openCursor(networkId));
+    await this.deleteWhere(tx.objectStore("registry").index("network").openCursor(networkId));
+    tx.objectStore("checkpoints").delete(networkId);
+    tx.objectStore("checkpoints").delete(`${networkId}:registry`);
+    await done(tx);
+  }
+
+  // Walks a cursor deleting rows while `keepGoing` says so
+  private deleteWhere(req: IDBRequest<IDBCursorWithValue | null>, keepGoing: () => boolean = () => true) {
+    return new Promise<void>((resolve, reject) => {
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor || !keepGoing()) return resolve();
+        cursor.delete();
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
+
+export function loadRetention(): RetentionSettings {
+  try {
+    const raw = localStorage.getItem(RETENTION_KEY);
+    if (raw) return { ...DEFAULT_RETENTION, ...JSON.parse(raw) };
+  } catch {
+    // fall through to defaults
+  }
+  return DEFAULT_RETENTION;
+}
+
+export function saveRetention(retention: RetentionSettings) {
+  try {
+    localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+export function loadGateways(): GatewaySettings {
+  try {
+    const raw = localStorage.getItem(GATEWAYS_KEY);
+    if (raw) return { ...DEFAULT_GATEWAYS, ...JSON.parse(raw) };
+  } catch {
+    // fall through to defaults
+  }
+  return DEFAULT_GATEWAYS;
+}
+
+export function saveGateways(gateways: GatewaySettings) {
+  try {
+    localStorage.setItem(GATEWAYS_KEY, JSON.stringify(gateways));
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+export function loadAlertSettings(): AlertSettings {
+  try {
+    const raw = localStorage.getItem(ALERTS_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      return { ...DEFAULT_ALERTS, ...saved, velocity: { ...DEFAULT_ALERTS.velocity, ...saved.velocity } };
+    }
+  } catch {
+    // fall through to defaults
+  }
+  return DEFAULT_ALERTS;
+}
+
+export function saveAlertSettings(settings: AlertSettings) {
+  try {
+    localStorage.setItem(ALERTS_KEY, JSON.stringify(settings));
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+/** Base URL of a `tracker-cli serve` instance; empty means talk to the RPC directly. */
+export function loadApiUrl(): string {
+  try {
+    const saved = localStorage.getItem(API_URL_KEY);
+    if (saved !== null) return saved;
+  } catch {
+    // fall through to the default
+  }
+  return (import.meta as any).env?.VITE_TRACKER_API ?? "";
+}
+
+export function saveApiUrl(url: string) {
+  try {
+    localStorage.setItem(API_URL_KEY, url);
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+export function loadActivityMode(): ActivityMode {
+  try {
+    if (localStorage.getItem(ACTIVITY_MODE_KEY) === "all") return "all";
+  } catch {
+    // fall through to the default
+  }
+  return "mints";
+}
+
+export function saveActivityMode(mode: ActivityMode) {
+  try {
+    localStorage.setItem(ACTIVITY_MODE_KEY, mode);
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+/** The "My mints" address, connected or pasted; null when none was chosen or the saved value is not an address. */
+export function loadWalletAddress(): string | null {
+  try {
+    const saved = localStorage.getItem(WALLET_KEY);
+    if (saved && ethers.isAddress(saved)) return saved;
+  } catch {
+    // fall through to none
+  }
+  return null;
+}
+
+export function saveWalletAddress(address: string | null) {
+  try {
+    if (address) localStorage.setItem(WALLET_KEY, address);
+    else localStorage.removeItem(WALLET_KEY);
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+export function loadRiskOverrides(): RiskOverrides {
+  try {
+    const raw = localStorage.getItem(RISK_OVERRIDES_KEY);
+    if (raw) return { allowed: [], denied: [], ...JSON.parse(raw) };
+  } catch {
+    // fall through to defaults
+  }
+  return { allowed: [], denied: [] };
+}
+
+export function saveRiskOverrides(overrides: RiskOverrides) {
+  try {
+    localStorage.setItem(RISK_OVERRIDES_KEY, JSON.stringify(overrides));
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+// Saved per network id, since endpoints only make sense for their own chain
+export function loadRpcSettings(networkId: string): RpcSettings {
+  try {
+    const raw = localStorage.getItem(RPC_SETTINGS_KEY);
+    const saved = raw ? JSON.parse(raw)[networkId] : undefined;
+    if (saved) return { ...DEFAULT_RPC_SETTINGS, ...saved };
+  } catch {
+    // fall through to defaults
+  }
+  return DEFAULT_RPC_SETTINGS;
+}
+
+export function saveRpcSettings(networkId: string, settings: RpcSettings) {
+  try {
+    const all = JSON.parse(localStorage.getItem(RPC_SETTINGS_KEY) ?? "{}");
+    localStorage.setItem(RPC_SETTINGS_KEY, JSON.stringify({ ...all, [networkId]: settings }));
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
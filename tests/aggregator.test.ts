@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { mintKey, compareMints, applyActivity, applyMeta, retractActivity, buildSummaries } from '../core/aggregator';
+import { ZERO, NFT, TOKEN, ALICE, BOB, nftMint, nftTransfer, tokenMint } from './fixtures';
+
+const noMeta = () => undefined;
+
+describe("mintKey / compareMints", () => {
+  it("keys batch items apart by subIndex", () => {
+    const a = nftMint("1");
+    expect(mintKey(a)).not.toBe(mintKey({ ...a, subIndex: 1 }));
+  });
+
+  it("orders newest first", () => {
+    const items = [nftMint("1", ALICE, 10), nftMint("2", ALICE, 12), nftMint("3", ALICE, 12, 1)];
+    expect([...items].sort(compareMints).map(it => it.tokenId)).toEqual(["3", "2", "1"]);
+  });
+});
+
+describe("applyActivity", () => {
+  it("counts mints, unique tokens, supply and holders", () => {
+    const s = applyActivity({}, [nftMint("1"), nftMint("2", BOB, 11), nftMint("2", BOB, 12)], noMeta)[NFT];
+    expect(s).toMatchObject({ totalMintEvents: 3, uniqueTokens: 2, circulatingSupply: 3n, holders: 2 });
+  });
+
+  it("does not mutate the previous snapshot", () => {
+    const first = applyActivity({}, [nftMint("1"), tokenMint(5n)], noMeta);
+    applyActivity(first, [nftMint("2", ALICE, 11), nftTransfer("1", ALICE, BOB, 12), tokenMint(7n, ALICE, 13)], noMeta);
+    expect(first[NFT].totalMintEvents).toBe(1);
+    expect([...first[NFT].tokenIds]).toEqual(["1"]);
+    expect(first[NFT].owners).toEqual(new Map([["1", new Map([[ALICE, 1n]])]]));
+    expect(first[TOKEN].owners.get("")?.get(ALICE)).toBe(5n);
+  });
+
+  it("gives the same result when applied twice to one snapshot, as StrictMode does", () => {
+    const prev = applyActivity({}, [tokenMint(5n)], noMeta);
+    const once = applyActivity(prev, [tokenMint(7n, BOB, 11)], noMeta);
+    const twice = applyActivity(prev, [tokenMint(7n, BOB, 11)], noMeta);
+    expect(twice).toEqual(once);
+    expect(twice[TOKEN]).toMatchObject({ circulatingSupply: 12n, holders: 2 });
+    expect(twice[TOKEN].owners.get("")?.get(BOB)).toBe(7n);
+  });
+
+  it("moves holdings on transfers and burns, in block order", () => {
+    const s = applyActivity({}, [
+      nftTransfer("1", BOB, ZERO, 13), // out of order on purpose
+      nftMint("1", ALICE, 10),
+      nftTransfer("1", ALICE, BOB, 12),
+      nftMint("2", ALICE, 11),
+    ], noMeta)[NFT];
+    expect(s).toMatchObject({ totalMintEvents: 2, burnEvents: 1, circulatingSupply: 1n, holders: 1 });
+    expect(s.owners.get("2")?.get(ALICE)).toBe(1n);
+    expect(s.owners.has("1")).toBe(false);
+  });
+
+  it("skips transfers of collections with no counted mint", () => {
+    expect(applyActivity({}, [nftTransfer("1", ALICE, BOB, 10)], noMeta)).toEqual({});
+  });
+
+  it("sums ERC-20 amounts per holder", () => {
+    const s = buildSummaries([tokenMint(5n), tokenMint(7n, ALICE, 11), tokenMint(1n, BOB, 12)], noMeta)[TOKEN];
+    expect(s.circulatingSupply).toBe(13n);
+    expect(s.owners.get("")?.get(ALICE)).toBe(12n);
+    expect(s.holders).toBe(2);
+  });
+
+  it("takes metadata from the lookup and from applyMeta", () => {
+    const s = applyActivity({}, [nftMint("1")], () => ({ name: "Cats" }));
+    expect(s[NFT].name).toBe("Cats");
+    expect(applyMeta(s, NFT, { symbol: "CAT" })[NFT]).toMatchObject({ name: "Cats", symbol: "CAT" });
+    expect(applyMeta(s, TOKEN, { name: "x" })).toBe(s);
+  });
+});
+
+describe("retractActivity", () => {
+  it("un-counts removed mints and keeps ids still minted elsewhere", () => {
+    const kept = [nftMint("1", ALICE, 10), nftMint("2", ALICE, 11)];
+    const removed = [nftMint("2", BOB, 20), nftMint("3", BOB, 21)];
+    const prev = buildSummaries([...kept, ...removed], noMeta);
+    const s = retractActivity(prev, removed, kept)[NFT];
+    expect(s).toMatchObject({ totalMintEvents: 2, uniqueTokens: 2, circulatingSupply: 2n, holders: 1 });
+    expect([...s.tokenIds]).toEqual(["1", "2"]);
+    expect(prev[NFT].tokenIds.size).toBe(3);
+    expect([...prev[NFT].owners.keys()]).toEqual(["1", "2", "3"]);
+    expect(prev[NFT].owners.get("2")?.get(BOB)).toBe(1n);
+  });
+
+  it("drops collections left without mints", () => {
+    const removed = [nftMint("1", ALICE, 20)];
+    expect(retractActivity(buildSummaries(removed, noMeta), removed, [])).toEqual({});
+  });
+
+  it("undoes retracted transfers and burns", () => {
+    const kept = [nftMint("1", ALICE, 10)];
+    const removed = [nftTransfer("1", ALICE, BOB, 20), nftTransfer("1", BOB, ZERO, 21)];
+    const s = retractActivity(buildSummaries([...kept, ...removed], noMeta), removed, kept)[NFT];
+    expect(s).toMatchObject({ burnEvents: 0, circulatingSupply: 1n, holders: 1 });
+    expect(s.owners.get("1")?.get(ALICE)).toBe(1n);
+  });
+
+  it("keeps activity that already left the buffer", () => {
+    const evicted = [nftMint("1", ALICE, 10), nftMint("2", BOB, 11), nftTransfer("2", BOB, ZERO, 12)];
+    const removed = [nftMint("3", BOB, 20), nftTransfer("1", ALICE, BOB, 21)];
+    const s = retractActivity(buildSummaries([...evicted, ...removed], noMeta), removed, [])[NFT];
+    expect(s).toMatchObject({ totalMintEvents: 2, uniqueTokens: 2, burnEvents: 1, circulatingSupply: 1n, holders: 1 });
+    expect(s.owners.get("1")?.get(ALICE)).toBe(1n);
+  });
+
+  it("returns the same map when nothing was removed", () => {
+    const prev = buildSummaries([nftMint("1")], noMeta);
+    expect(retractActivity(prev, [], [])).toBe(prev);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ZERO, ALICE, BOB, erc721Log } from './fixtures';
+import { startMockRpc, MOCK_CHAIN_ID } from './mockRpc';
+
+// The CLI runs from source in its own process, as `npm run cli` would run the bundle
+function runCli(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise(resolve => {
+    execFile("node_modules/.bin/vite-node", ["cli/main.ts", "--", ...args], { timeout: 60000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? Number(error.code ?? 1) : 0, stdout, stderr });
+    });
+  });
+}
+
+const ndjson = (text: string) => text.split("\n").filter(Boolean).map(line => JSON.parse(line));
+
+// Each run starts a Node process and transforms the CLI sources
+describe("tracker-cli scan", { timeout: 30000 }, () => {
+  let rpc: Awaited<ReturnType<typeof startMockRpc>>;
+  let dir: string;
+
+  beforeEach(async () => {
+    rpc = await startMockRpc({
+      logs: [
+        erc721Log(ZERO, ALICE, 1n, { block: 10, tx: 10 }),
+        erc721Log(ZERO, BOB, 2n, { block: 110, tx: 110 }),
+      ],
+    });
+    dir = await mkdtemp(join(tmpdir(), "tracker-cli-"));
+  });
+
+  afterEach(async () => {
+    await rpc.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("prints NDJSON, appends it to --out and resumes from the checkpoint", async () => {
+    const checkpoint = join(dir, "checkpoint.json");
+    const out = join(dir, "mints.ndjson");
+    const common = ["--rpc", rpc.url, "--chain-id", String(MOCK_CHAIN_ID), "--format", "ndjson", "--checkpoint", checkpoint, "--out", out];
+
+    const first = await runCli(["scan", ...common, "--from", "0", "--to", "120"]);
+    expect(first.code).toBe(0);
+    expect(ndjson(first.stdout).map(r => [r.kind, r.blockNumber, r.tokenId, r.to, r.matchedBy])).toEqual([
+      ["mint", 10, "1", ALICE, "minter"],
+      ["mint", 110, "2", BOB, "minter"],
+    ]);
+    expect(JSON.parse(await readFile(checkpoint, "utf8"))).toMatchObject({ networkId: "monad-testnet", blockNumber: 120 });
+
+    rpc.chain.logs.push(erc721Log(ZERO, BOB, 3n, { block: 125, tx: 125 }));
+    rpc.chain.head = 130;
+    const second = await runCli(["scan", ...common]);
+    expect(second.code).toBe(0);
+    expect(second.stderr).toContain("blocks 121-130");
+    expect(ndjson(second.stdout).map(r => r.tokenId)).toEqual(["3"]);
+    expect(JSON.parse(await readFile(checkpoint, "utf8")).blockNumber).toBe(130);
+    expect(ndjson(await readFile(out, "utf8")).map(r => r.tokenId)).toEqual(["1", "2", "3"]);
+  });
+
+  it("rejects malformed numeric options with their own message", async () => {
+    const rpcArgs = ["--rpc", rpc.url];
+    expect((await runCli(["scan", ...rpcArgs, "--chain-id", "0"])).stderr).toContain("--chain-id must be an integer of at least 1");
+    expect((await runCli(["scan", ...rpcArgs, "--rps", "fast"])).stderr).toContain("--rps must be an integer of at least 0");
+    const bad = await runCli(["scan", ...rpcArgs, "--chain-id", String(MOCK_CHAIN_ID), "--from", "1.5"]);
+    expect(bad.code).toBe(1);
+    expect(bad.stderr).toContain("--from must be a block number");
+  });
+});
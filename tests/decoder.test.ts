@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { TokenType } from '../types';
+import { decodeMintLog, decodeTransferLog, createMintWhitelist, isWhitelistedTx } from '../core/decoder';
+import { ZERO, NFT, TOKEN, MULTI, ALICE, BOB, erc721Log, erc20Log, erc1155SingleLog, erc1155BatchLog } from './fixtures';
+
+describe("decodeMintLog", () => {
+  it("decodes an ERC-721 mint", () => {
+    const [item, ...rest] = decodeMintLog(erc721Log(ZERO, ALICE, 7n, { block: 12, index: 3 }));
+    expect(rest).toHaveLength(0);
+    expect(item).toMatchObject({ blockNumber: 12, logIndex: 3, contract: NFT, to: ALICE, type: TokenType.ERC721, tokenId: "7" });
+    expect(item.amount).toBeUndefined();
+    expect(item).not.toHaveProperty("from");
+  });
+
+  it("decodes an ERC-20 mint", () => {
+    expect(decodeMintLog(erc20Log(ZERO, ALICE, 10n ** 18n))).toEqual([
+      expect.objectContaining({ contract: TOKEN, to: ALICE, type: TokenType.ERC20, amount: "1000000000000000000" }),
+    ]);
+  });
+
+  it("decodes an ERC-1155 TransferSingle mint", () => {
+    expect(decodeMintLog(erc1155SingleLog(ZERO, ALICE, 5n, 3n))).toEqual([
+      expect.objectContaining({ contract: MULTI, to: ALICE, type: TokenType.ERC1155, tokenId: "5", amount: "3" }),
+    ]);
+  });
+
+  it("splits an ERC-1155 TransferBatch mint into one item per id", () => {
+    const items = decodeMintLog(erc1155BatchLog(ZERO, ALICE, [1n, 2n, 3n], [10n, 20n, 30n], { index: 4 }));
+    expect(items.map(it => [it.subIndex, it.tokenId, it.amount])).toEqual([[0, "1", "10"], [1, "2", "20"], [2, "3", "30"]]);
+    expect(items.every(it => it.logIndex === 4 && it.type === TokenType.ERC1155)).toBe(true);
+  });
+
+  it("ignores transfers that are not mints", () => {
+    expect(decodeMintLog(erc721Log(ALICE, BOB, 7n))).toEqual([]);
+    expect(decodeMintLog(erc20Log(ALICE, BOB, 1n))).toEqual([]);
+    expect(decodeMintLog(erc1155SingleLog(ALICE, BOB, 5n, 1n))).toEqual([]);
+    expect(decodeMintLog(erc1155BatchLog(ALICE, BOB, [1n], [1n]))).toEqual([]);
+  });
+
+  it("ignores unrelated and malformed logs", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(decodeMintLog({ ...erc721Log(ZERO, ALICE, 1n), topics: ["0x" + "ab".repeat(32)] })).toEqual([]);
+    expect(decodeMintLog({ ...erc20Log(ZERO, ALICE, 1n), data: "0x1234" })).toEqual([]);
+    expect(decodeMintLog({ ...erc1155BatchLog(ZERO, ALICE, [1n], [1n]), data: "0x" })).toEqual([]);
+  });
+});
+
+describe("decodeTransferLog", () => {
+  it("decodes a transfer between holders", () => {
+    expect(decodeTransferLog(erc721Log(ALICE, BOB, 7n))).toEqual([
+      expect.objectContaining({ kind: "transfer", from: ALICE, to: BOB, tokenId: "7" }),
+    ]);
+  });
+
+  it("marks transfers to the zero address as burns", () => {
+    expect(decodeTransferLog(erc20Log(ALICE, ZERO, 5n))).toEqual([
+      expect.objectContaining({ kind: "burn", from: ALICE, to: ZERO, amount: "5" }),
+    ]);
+    expect(decodeTransferLog(erc1155BatchLog(ALICE, ZERO, [1n, 2n], [1n, 1n])).map(it => it.kind)).toEqual(["burn", "burn"]);
+  });
+
+  it("ignores mints", () => {
+    expect(decodeTransferLog(erc721Log(ZERO, ALICE, 7n))).toEqual([]);
+    expect(decodeTransferLog(erc1155SingleLog(ZERO, ALICE, 5n, 1n))).toEqual([]);
+  });
+});
+
+describe("isWhitelistedTx", () => {
+  const whitelist = createMintWhitelist(["0x00000000009a1E02f00E280dcfA4C81c55724212"]);
+
+  it("matches the minter regardless of case", () => {
+    expect(isWhitelistedTx("0x00000000009a1e02f00e280dcfa4c81c55724212", whitelist)).toBe(true);
+  });
+
+  it("rejects other targets and contract creations", () => {
+    expect(isWhitelistedTx(NFT, whitelist)).toBe(false);
+    expect(isWhitelistedTx(null, whitelist)).toBe(false);
+    expect(isWhitelistedTx(undefined, whitelist)).toBe(false);
+  });
+});
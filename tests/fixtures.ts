@@ -0,0 +1,76 @@
+import { ethers } from "ethers";
+import { TokenType, MintItem, TransferItem } from '../types';
+import { TRANSFER_TOPIC, TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC } from '../constants';
+import { LogLike } from '../core/decoder';
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const topic = (addr: string) => ethers.zeroPadValue(addr, 32);
+const txHash = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+
+export const ZERO = ethers.ZeroAddress;
+export const NFT = ethers.getAddress("0x1111111111111111111111111111111111111111");
+export const TOKEN = ethers.getAddress("0x3333333333333333333333333333333333333333");
+export const MULTI = ethers.getAddress("0x4444444444444444444444444444444444444444");
+export const ALICE = ethers.getAddress("0x2222222222222222222222222222222222222222");
+export const BOB = ethers.getAddress("0x5555555555555555555555555555555555555555");
+export const OPERATOR = ethers.getAddress("0x6666666666666666666666666666666666666666");
+
+type At = { block?: number; tx?: number; index?: number };
+
+const base = (address: string, at: At) => ({
+  blockNumber: at.block ?? 10,
+  transactionHash: txHash(at.tx ?? 1),
+  index: at.index ?? 0,
+  address,
+});
+
+export const erc721Log = (from: string, to: string, tokenId: bigint, at: At = {}): LogLike => ({
+  ...base(NFT, at),
+  topics: [TRANSFER_TOPIC, topic(from), topic(to), ethers.toBeHex(tokenId, 32)],
+  data: "0x",
+});
+
+export const erc20Log = (from: string, to: string, amount: bigint, at: At = {}): LogLike => ({
+  ...base(TOKEN, at),
+  topics: [TRANSFER_TOPIC, topic(from), topic(to)],
+  data: coder.encode(["uint256"], [amount]),
+});
+
+export const erc1155SingleLog = (from: string, to: string, id: bigint, value: bigint, at: At = {}): LogLike => ({
+  ...base(MULTI, at),
+  topics: [TRANSFER_SINGLE_TOPIC, topic(OPERATOR), topic(from), topic(to)],
+  data: coder.encode(["uint256", "uint256"], [id, value]),
+});
+
+export const erc1155BatchLog = (from: string, to: string, ids: bigint[], values: bigint[], at: At = {}): LogLike => ({
+  ...base(MULTI, at),
+  topics: [TRANSFER_BATCH_TOPIC, topic(OPERATOR), topic(from), topic(to)],
+  data: coder.encode(["uint256[]", "uint256[]"], [ids, values]),
+});
+
+/** A decoded ERC-721 mint, as the pipeline would hand it to the aggregator. */
+export const nftMint = (tokenId: string, to = ALICE, block = 10, logIndex = 0): MintItem => ({
+  blockNumber: block,
+  txHash: txHash(block),
+  logIndex,
+  contract: NFT,
+  to,
+  type: TokenType.ERC721,
+  tokenId,
+});
+
+export const nftTransfer = (tokenId: string, from: string, to: string, block: number, logIndex = 0): TransferItem => ({
+  ...nftMint(tokenId, to, block, logIndex),
+  kind: to === ZERO ? "burn" : "transfer",
+  from,
+});
+
+export const tokenMint = (amount: bigint, to = ALICE, block = 10): MintItem => ({
+  blockNumber: block,
+  txHash: txHash(block),
+  logIndex: 0,
+  contract: TOKEN,
+  to,
+  type: TokenType.ERC20,
+  amount: amount.toString(),
+});
@@ -0,0 +1,137 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import { LogLike } from '../core/decoder';
+import { NETWORKS } from '../networks';
+import { NetworkConfig } from '../types';
+import { ALICE } from './fixtures';
+
+export const MOCK_CHAIN_ID = 31337;
+export const MINTER = "0x00000000009a1e02f00e280dcfa4c81c55724212";
+
+const hex = (n: number | bigint) => ethers.toQuantity(n);
+
+/** What the mock serves; tests change it between requests. */
+export type MockChain = {
+  head: number;
+  logs: LogLike[];
+  txTo: string; // `to` of every transaction
+  failTxs: Set<string>; // eth_getTransactionByHash errors for these hashes
+  failures: Record<string, number>; // the next N calls of a method answer with an error
+  forks: Map<number, string>; // block hashes replaced, e.g. to stage a reorg
+  calls: Record<string, number>;
+};
+
+export const blockHash = (chain: MockChain, n: number) =>
+  chain.forks.get(n) ?? ethers.zeroPadValue(ethers.toBeHex(n + 0xb10c0000), 32);
+
+function toRpcLog(chain: MockChain, log: LogLike) {
+  return {
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: hex(log.blockNumber),
+    blockHash: blockHash(chain, log.blockNumber),
+    transactionHash: log.transactionHash,
+    transactionIndex: "0x0",
+    logIndex: hex(log.index),
+    removed: false,
+  };
+}
+
+function answer(chain: MockChain, req: { id: number; method: string; params: any[] }) {
+  chain.calls[req.method] = (chain.calls[req.method] ?? 0) + 1;
+  const ok = (result: unknown) => ({ jsonrpc: "2.0", id: req.id, result });
+  const fail = (message: string) => ({ jsonrpc: "2.0", id: req.id, error: { code: -32000, message } });
+  if (chain.failures[req.method] > 0) {
+    chain.failures[req.method]--;
+    return fail("mock failure");
+  }
+
+  switch (req.method) {
+    case "eth_chainId":
+      return ok(hex(MOCK_CHAIN_ID));
+    case "eth_blockNumber":
+      return ok(hex(chain.head));
+    case "eth_getLogs": {
+      const { fromBlock, toBlock, address, topics } = req.params[0];
+      const anyOf = (wanted: unknown, value: string) =>
+        wanted == null || [wanted].flat().some(w => String(w).toLowerCase() === value.toLowerCase());
+      return ok(chain.logs
+        .filter(l => l.blockNumber >= Number(fromBlock) && l.blockNumber <= Number(toBlock))
+        .filter(l => anyOf(address, l.address) && anyOf(topics?.[0], l.topics[0]))
+        .map(l => toRpcLog(chain, l)));
+    }
+    case "eth_getTransactionByHash": {
+      const hash = req.params[0];
+      if (chain.failTxs.has(hash)) return fail("mock failure");
+      return ok({ hash, from: ALICE, to: chain.txTo, value: hex(10n ** 16n), nonce: "0x0", gas: "0x0", input: "0x" });
+    }
+    case "eth_getBlockByNumber": {
+      const n = req.params[0] === "latest" ? chain.head : Number(req.params[0]);
+      if (n > chain.head) return ok(null);
+      return ok({
+        number: hex(n),
+        hash: blockHash(chain, n),
+        parentHash: n > 0 ? blockHash(chain, n - 1) : ethers.ZeroHash,
+        timestamp: hex(1_700_000_000 + n),
+        transactions: [],
+        gasLimit: "0x0",
+        gasUsed: "0x0",
+        miner: ethers.ZeroAddress,
+        extraData: "0x",
+        difficulty: "0x0",
+        nonce: "0x0000000000000000",
+        baseFeePerGas: "0x0",
+      });
+    }
+    case "eth_call":
+      return { jsonrpc: "2.0", id: req.id, error: { code: 3, message: "execution reverted", data: "0x" } };
+    case "eth_getCode":
+      return ok("0x");
+    default:
+      return { jsonrpc: "2.0", id: req.id, error: { code: -32601, message: `${req.method} not supported` } };
+  }
+}
+
+/** A JSON-RPC server on a random local port, answering single and batch requests from `chain`. */
+export async function startMockRpc(init: Partial<MockChain> = {}) {
+  const chain: MockChain = {
+    head: 120,
+    logs: [],
+    txTo: MINTER,
+    failTxs: new Set(),
+    failures: {},
+    forks: new Map(),
+    calls: {},
+    ...init,
+  };
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const json = JSON.parse(body);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(Array.isArray(json) ? json.map(r => answer(chain, r)) : answer(chain, json)));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    chain,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/** The built-in network pointed at a mock, with the default minter whitelist. */
+export function mockNetwork(url: string): NetworkConfig {
+  return { ...NETWORKS[0], httpUrl: url, extraHttpUrls: [], chainId: MOCK_CHAIN_ID };
+}
+
+// No response cache, since tests change the chain between calls
+export const mockProvider = (url: string) =>
+  new ethers.JsonRpcProvider(url, MOCK_CHAIN_ID, { staticNetwork: true, cacheTimeout: -1 });
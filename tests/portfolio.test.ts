@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { TokenType } from '../types';
+import { verifyHoldings } from '../core/portfolio';
+import { NFT, ALICE } from './fixtures';
+import { startMockRpc, mockProvider } from './mockRpc';
+
+describe("verifyHoldings", () => {
+  let rpc: Awaited<ReturnType<typeof startMockRpc>>;
+  let provider: ReturnType<typeof mockProvider>;
+
+  beforeEach(async () => {
+    rpc = await startMockRpc();
+    provider = mockProvider(rpc.url);
+  });
+
+  afterEach(async () => {
+    provider.destroy();
+    await rpc.close();
+  });
+
+  const candidates = [{ contract: NFT, type: TokenType.ERC721, tokenId: "1" }];
+
+  it("counts a reverting call as not held", async () => {
+    expect(await verifyHoldings(provider, ALICE, candidates)).toEqual([]);
+  });
+
+  it("rejects when a call fails for another reason", async () => {
+    rpc.chain.failures.eth_call = 1;
+    await expect(verifyHoldings(provider, ALICE, candidates)).rejects.toThrow();
+  });
+});
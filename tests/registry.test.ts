@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ethers } from "ethers";
+import { CollectionRegistry, minimalProxyTarget } from '../core/registry';
+import { FactoryConfig } from '../types';
+import { NFT, ALICE } from './fixtures';
+import { startMockRpc, mockProvider } from './mockRpc';
+
+const FACTORY = ethers.getAddress("0x7777777777777777777777777777777777777777");
+const EVENT = "event CollectionCreated(address indexed owner, address indexed collection, string name)";
+const iface = new ethers.Interface([EVENT]);
+
+const creationLog = (collection: string, block: number, address = FACTORY) => {
+  const { topics, data } = iface.encodeEventLog("CollectionCreated", [ALICE, collection, "Cats"]);
+  return { blockNumber: block, transactionHash: ethers.zeroPadValue(ethers.toBeHex(block), 32), index: 0, address, topics, data };
+};
+
+const registryWith = (factory: Partial<FactoryConfig> = {}) =>
+  new CollectionRegistry([{ address: FACTORY, event: EVENT, collectionArg: "collection", ...factory }], [], 10);
+
+describe("CollectionRegistry", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("registers the named argument of a factory event", () => {
+    const registry = registryWith();
+    registry.ingestLogs([creationLog(NFT, 5)]);
+    expect(registry.get(NFT)).toEqual({ address: NFT, source: "factory", via: FACTORY, blockNumber: 5 });
+  });
+
+  it("defaults to the first address argument", () => {
+    const registry = registryWith({ collectionArg: undefined });
+    registry.ingestLogs([creationLog(NFT, 5)]);
+    expect(registry.has(ALICE)).toBe(true);
+  });
+
+  it("ignores the same event from another contract", () => {
+    const registry = registryWith();
+    registry.ingestLogs([creationLog(NFT, 5, ALICE)]);
+    expect(registry.size).toBe(0);
+  });
+
+  it("rejects a collectionArg the event does not have", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(registryWith({ collectionArg: "name" }).topics).toEqual([]);
+  });
+
+  it("backfills creation events from the deploy block", async () => {
+    const rpc = await startMockRpc({ head: 50_000, logs: [creationLog(NFT, 150), creationLog(ALICE, 30_000), creationLog(FACTORY, 90)] });
+    const provider = mockProvider(rpc.url);
+    try {
+      const registry = registryWith({ deployBlock: 100 });
+      const progress: number[] = [];
+      const complete = await registry.backfill(provider, 0, 40_000, {
+        initialChunk: 1000,
+        maxChunk: 10_000,
+        onProgress: (block) => void progress.push(block),
+      });
+      expect(complete).toBe(true);
+      expect(registry.list().map(e => e.address)).toEqual([NFT, ALICE]);
+      expect(progress.at(-1)).toBe(40_000);
+      expect(progress[0]).toBe(1099);
+    } finally {
+      provider.destroy();
+      await rpc.close();
+    }
+  });
+
+  it("has nothing to backfill without a deploy block", () => {
+    expect(registryWith().canBackfill).toBe(false);
+    expect(registryWith({ deployBlock: 1 }).canBackfill).toBe(true);
+  });
+
+  it("reads the implementation out of EIP-1167 proxy code", () => {
+    const impl = "7777777777777777777777777777777777777777";
+    expect(minimalProxyTarget(`0x363d3d373d3d3d363d73${impl}5af43d82803e903d91602b57fd5bf3`)).toBe(`0x${impl}`);
+    expect(minimalProxyTarget("0x6080")).toBeNull();
+  });
+});
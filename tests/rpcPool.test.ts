@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import { RpcPool, PoolOptions } from '../core/rpcPool';
+
+const OPTIONS: PoolOptions = { maxRps: 0, maxConcurrency: 0, maxAttempts: 3, backoffBaseMs: 1, backoffMaxMs: 1, timeoutMs: 5000 };
+
+// Answers each call with its own id, except the ids listed in `limitOnce`, rate limited the first time
+async function startServer(limitOnce: number[], delayMs = 0) {
+  const limited = new Set(limitOnce);
+  const bodies: any[] = [];
+  const load = { inFlight: 0, maxInFlight: 0 };
+  const server = http.createServer((req, res) => {
+    load.maxInFlight = Math.max(load.maxInFlight, ++load.inFlight);
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const json = JSON.parse(body);
+      bodies.push(json);
+      const answer = (r: any) => limited.delete(r.id)
+        ? { jsonrpc: "2.0", id: r.id, error: { code: -32005, message: "rate limited" } }
+        : { jsonrpc: "2.0", id: r.id, result: r.id };
+      const reply = JSON.stringify(Array.isArray(json) ? json.map(answer) : answer(json));
+      setTimeout(() => {
+        load.inFlight--;
+        res.setHeader("Content-Type", "application/json");
+        res.end(reply);
+      }, delayMs);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    bodies,
+    load,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+const call = (id: number): ethers.JsonRpcPayload => ({ jsonrpc: "2.0", id, method: "eth_chainId", params: [] });
+
+describe("RpcPool", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it("retries only the rate-limited entries of a batch", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startServer([2, 3]);
+    const pool = new RpcPool([server.url], OPTIONS);
+    const reply = await pool.request([call(1), call(2), call(3)]) as ethers.JsonRpcResult[];
+    expect(reply.map(r => r.result).sort()).toEqual([1, 2, 3]);
+    expect(server.bodies[1].map((r: any) => r.id)).toEqual([2, 3]);
+    expect(pool.stats()).toMatchObject({ requests: 1, retries: 1, failed: 0 });
+    expect(pool.stats().endpoints[0].rateLimited).toBe(1);
+  });
+
+  it("treats a fully rate-limited reply as a 429", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startServer([1]);
+    const pool = new RpcPool([server.url], OPTIONS);
+    expect((await pool.request(call(1)) as ethers.JsonRpcResult).result).toBe(1);
+    expect(pool.stats().retries).toBe(1);
+  });
+
+  it("holds requests past the rate limit until the bucket refills", async () => {
+    server = await startServer([], 300);
+    const pool = new RpcPool([server.url], { ...OPTIONS, maxRps: 5 });
+    // Five tokens go at once, the sixth request waits out the refill while the others are in flight
+    const requests = Array.from({ length: 6 }, (_, i) => pool.request(call(i)));
+    await vi.waitFor(() => expect(server.bodies).toHaveLength(5), { timeout: 2000, interval: 10 });
+    expect(server.load.inFlight).toBe(5);
+    await vi.waitFor(() => expect(server.bodies).toHaveLength(6), { timeout: 2000, interval: 10 });
+    expect(server.load.inFlight).toBe(6);
+    await Promise.all(requests);
+  });
+
+  it("keeps no more than maxConcurrency requests in flight", async () => {
+    server = await startServer([], 50);
+    const pool = new RpcPool([server.url], { ...OPTIONS, maxConcurrency: 2 });
+    const replies = await Promise.all(Array.from({ length: 6 }, (_, i) => pool.request(call(i)))) as ethers.JsonRpcResult[];
+    expect(replies.map(r => r.result)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(server.bodies).toHaveLength(6);
+    expect(server.load.maxInFlight).toBe(2);
+  });
+});
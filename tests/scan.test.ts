@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Log } from "ethers";
+import { scanLogs, isRateLimitError, isRangeTooLargeError } from '../core/scan';
+
+const OPTIONS = { initialChunk: 100, maxChunk: 100, attempts: 3, retryDelayMs: 0 };
+
+// Records each requested range and throws the queued errors first
+function source(errors: unknown[]) {
+  const ranges: [number, number][] = [];
+  return {
+    ranges,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }): Promise<Log[]> => {
+      ranges.push([fromBlock, toBlock]);
+      if (errors.length > 0) throw errors.shift();
+      return [];
+    },
+  };
+}
+
+describe("scanLogs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("halves the chunk when the RPC rejects the range", async () => {
+    const logs = source([new Error("block range too large")]);
+    expect(await scanLogs(logs, {}, 0, 99, () => {}, OPTIONS)).toBe(true);
+    expect(logs.ranges).toEqual([[0, 99], [0, 49], [50, 99]]);
+  });
+
+  it("backs off on a rate limit without shrinking the chunk", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const limited = Object.assign(new Error("HTTP 429"), { status: 429 });
+    const logs = source([limited, new Error("rate limit exceeded")]);
+    expect(await scanLogs(logs, {}, 0, 99, () => {}, OPTIONS)).toBe(true);
+    expect(logs.ranges).toEqual([[0, 99], [0, 99], [0, 99]]);
+  });
+
+  it("fails once a rate-limited chunk runs out of attempts", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const logs = source(Array.from({ length: 3 }, () => ({ error: { code: -32005, message: "request limit reached" } })));
+    await expect(scanLogs(logs, {}, 0, 99, () => {}, OPTIONS)).rejects.toMatchObject({ error: { code: -32005 } });
+    expect(logs.ranges).toHaveLength(3);
+  });
+});
+
+describe("isRateLimitError", () => {
+  it("tells rate limits apart from range errors", () => {
+    expect(isRateLimitError({ response: { statusCode: 429 } })).toBe(true);
+    expect(isRateLimitError(new Error("Too Many Requests"))).toBe(true);
+    expect(isRateLimitError(new Error("query returned more than 10000 results"))).toBe(false);
+    expect(isRangeTooLargeError(new Error("query returned more than 10000 results"))).toBe(true);
+  });
+});
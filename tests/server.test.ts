@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { HeadlessTracker } from '../cli/tracker';
+import { createApiServer } from '../cli/server';
+import { MintSink } from '../cli/output';
+import { ZERO, NFT, ALICE, BOB, erc721Log } from './fixtures';
+import { startMockRpc, mockNetwork, mockProvider } from './mockRpc';
+
+const silentSink: MintSink = { writeMints: async () => {}, writeSummaries: async () => {} };
+
+describe("API server", () => {
+  let rpc: Awaited<ReturnType<typeof startMockRpc>>;
+  let provider: ReturnType<typeof mockProvider>;
+  let tracker: HeadlessTracker;
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    rpc = await startMockRpc({
+      logs: [
+        erc721Log(ZERO, ALICE, 1n, { block: 10, tx: 10 }),
+        erc721Log(ZERO, ALICE, 2n, { block: 50, tx: 50 }),
+        erc721Log(ZERO, BOB, 3n, { block: 110, tx: 110 }),
+      ],
+    });
+    provider = mockProvider(rpc.url);
+    tracker = new HeadlessTracker(provider, mockNetwork(rpc.url), silentSink, null);
+    await tracker.scan(0, 120);
+    server = createApiServer(tracker);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    provider.destroy();
+    await rpc.close();
+    vi.restoreAllMocks();
+  });
+
+  const get = async (path: string) => {
+    const res = await fetch(`${base}${path}`);
+    return { status: res.status, body: await res.json() };
+  };
+
+  it("reports status", async () => {
+    expect(await get("/status")).toEqual({
+      status: 200,
+      body: { network: "monad-testnet", chainId: 31337, lastBlock: 120 },
+    });
+  });
+
+  it("pages and filters mints", async () => {
+    const { status, body } = await get("/mints?limit=2");
+    expect(status).toBe(200);
+    expect(body.total).toBe(3);
+    expect(body.items.map((it: any) => it.blockNumber)).toEqual([110, 50]);
+
+    const asc = await get(`/mints?to=${BOB.toLowerCase()}&order=asc`);
+    expect(asc.body.items.map((it: any) => it.tokenId)).toEqual(["3"]);
+  });
+
+  it("rejects a bad limit with 400", async () => {
+    expect(await get("/mints?limit=abc")).toEqual({ status: 400, body: { error: "limit must be a non-negative integer" } });
+    expect((await get("/mints?limit=-1")).status).toBe(400);
+  });
+
+  it("serves a collection with one page of owners", async () => {
+    const { status, body } = await get(`/collections/${NFT.toLowerCase()}?ownersLimit=2`);
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ address: NFT, totalMintEvents: 3, uniqueTokens: 3, circulatingSupply: "3", holders: 2, ownersTotal: 3 });
+    expect(body.tokenIds).toEqual(["1", "2", "3"]);
+    expect(body.owners).toEqual({ 1: { [ALICE]: "1" }, 2: { [ALICE]: "1" } });
+
+    const next = await get(`/collections/${NFT}?ownersOffset=2`);
+    expect(next.body.owners).toEqual({ 3: { [BOB]: "1" } });
+  });
+
+  it("leaves owners out of the collection list", async () => {
+    const { body } = await get("/collections");
+    expect(body).toHaveLength(1);
+    expect(body[0]).toMatchObject({ address: NFT, owners: {}, ownersTotal: 3 });
+  });
+
+  it("answers 400 and 404 for bad or unknown collections", async () => {
+    expect((await get("/collections/0x1234")).status).toBe(400);
+    expect((await get(`/collections/${BOB}`)).status).toBe(404);
+    expect((await get(`/collections/${NFT}?ownersLimit=x`)).status).toBe(400);
+  });
+
+  it("streams new mints", async () => {
+    const events: string[] = [];
+    const req = http.get(`${base}/stream`);
+    const res = await new Promise<http.IncomingMessage>(resolve => req.on("response", resolve));
+    expect(res.headers["content-type"]).toBe("text/event-stream");
+    res.setEncoding("utf8");
+    res.on("data", chunk => events.push(chunk));
+
+    rpc.chain.logs.push(erc721Log(ZERO, BOB, 4n, { block: 125, tx: 125 }));
+    rpc.chain.head = 130;
+    await tracker.scan(121, 130);
+
+    await vi.waitFor(() => expect(events.join("")).toContain("event: mints"), { timeout: 2000, interval: 10 });
+    const data = events.join("").split("event: mints\ndata: ")[1].split("\n")[0];
+    expect(JSON.parse(data)).toEqual([expect.objectContaining({ blockNumber: 125, tokenId: "4", to: BOB })]);
+    req.destroy();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TokenType } from '../types';
+import { TokenMetadataResolver } from '../core/tokenMetadata';
+import { DEFAULT_GATEWAYS } from '../storage';
+import { NFT } from './fixtures';
+import { startMockRpc, mockProvider } from './mockRpc';
+
+describe("TokenMetadataResolver", () => {
+  let rpc: Awaited<ReturnType<typeof startMockRpc>>;
+  let provider: ReturnType<typeof mockProvider>;
+  let resolver: TokenMetadataResolver;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    rpc = await startMockRpc();
+    provider = mockProvider(rpc.url);
+    resolver = new TokenMetadataResolver(provider, DEFAULT_GATEWAYS, 10, 1000);
+  });
+
+  afterEach(async () => {
+    provider.destroy();
+    await rpc.close();
+    vi.restoreAllMocks();
+  });
+
+  it("caches null for a tokenURI call that reverts", async () => {
+    expect(await resolver.resolve(NFT, TokenType.ERC721, "1")).toBeNull();
+    expect(await resolver.resolve(NFT, TokenType.ERC721, "1")).toBeNull();
+    expect(rpc.chain.calls.eth_call).toBe(1);
+  });
+
+  it("tries again after a transient failure", async () => {
+    rpc.chain.failures.eth_call = 1;
+    expect(await resolver.resolve(NFT, TokenType.ERC721, "1")).toBeNull();
+    expect(await resolver.resolve(NFT, TokenType.ERC721, "1")).toBeNull();
+    expect(rpc.chain.calls.eth_call).toBe(2);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HeadlessTracker } from '../cli/tracker';
+import { CheckpointFile } from '../cli/checkpoint';
+import { createSink } from '../cli/output';
+import { ZERO, ALICE, BOB, erc721Log } from './fixtures';
+import { startMockRpc, mockNetwork, mockProvider, blockHash } from './mockRpc';
+
+// Retries without the production backoff
+vi.mock('../constants', async (importOriginal) => ({ ...await importOriginal<typeof import('../constants')>(), SCAN_RETRY_DELAY_MS: 0 }));
+
+const MINT_BLOCKS = [10, 50, 110];
+
+describe("HeadlessTracker.scan", () => {
+  let rpc: Awaited<ReturnType<typeof startMockRpc>>;
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    rpc = await startMockRpc({
+      logs: MINT_BLOCKS.map((block, i) => erc721Log(ZERO, ALICE, BigInt(i + 1), { block, tx: block })),
+    });
+    dir = await mkdtemp(join(tmpdir(), "tracker-test-"));
+  });
+
+  afterEach(async () => {
+    await rpc.close();
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const open = () => {
+    const out = join(dir, "mints.ndjson");
+    const checkpoint = new CheckpointFile(join(dir, "checkpoint.json"), "monad-testnet");
+    const provider = mockProvider(rpc.url);
+    const tracker = new HeadlessTracker(provider, mockNetwork(rpc.url), createSink("ndjson", out, false), checkpoint);
+    const records = async () => (await readFile(out, "utf8").catch(() => "")).split("\n").filter(Boolean).map(l => JSON.parse(l));
+    return { tracker, provider, checkpoint, records };
+  };
+
+  it("retries a chunk whose transaction lookups failed", async () => {
+    rpc.chain.failures.eth_getTransactionByHash = 1;
+    const { tracker, provider, checkpoint, records } = open();
+    expect(await tracker.scan(0, 120)).toBe(true);
+    provider.destroy();
+    expect((await records()).map(r => r.blockNumber)).toEqual(MINT_BLOCKS);
+    expect((await checkpoint.load())?.blockNumber).toBe(120);
+  });
+
+  it("fails without moving the checkpoint past a chunk that never resolved", async () => {
+    rpc.chain.failTxs.add(erc721Log(ZERO, ALICE, 3n, { tx: 110 }).transactionHash);
+    const { tracker, provider, checkpoint, records } = open();
+    await expect(tracker.scan(0, 120)).rejects.toThrow();
+    provider.destroy();
+    expect((await records()).map(r => r.blockNumber)).toEqual([10, 50]);
+    expect((await checkpoint.load())?.blockNumber).toBe(99);
+    expect(tracker.lastBlock).toBe(99);
+  });
+
+  it("retracts mints of a replaced block when the tail is re-read", async () => {
+    const { tracker, provider, checkpoint, records } = open();
+    const events: unknown[] = [];
+    tracker.subscribe(e => events.push(e));
+    rpc.chain.logs.push(erc721Log(ZERO, ALICE, 4n, { block: 118, tx: 118 }));
+    await tracker.scan(0, 120);
+
+    // Block 118 is replaced by one minting a different token to BOB
+    rpc.chain.logs = rpc.chain.logs.filter(l => l.blockNumber !== 118);
+    rpc.chain.logs.push(erc721Log(ZERO, BOB, 5n, { block: 118, tx: 1118 }));
+    rpc.chain.forks.set(118, blockHash(rpc.chain, 1118));
+    rpc.chain.head = 125;
+    expect(await tracker.scan(116, 125)).toBe(true);
+    provider.destroy();
+
+    expect(events).toContainEqual({ type: "reorg", fromBlock: 118 });
+    expect(tracker.recentMints().map(it => it.tokenId)).toEqual(["5", "3", "2", "1"]);
+    const [summary] = Object.values(tracker.summaries);
+    expect(summary.owners.has("4")).toBe(false);
+    expect(summary.owners.get("5")?.get(BOB)).toBe(1n);
+    expect((await records()).map(r => r.tokenId)).toEqual(["1", "2", "3", "4", "5"]);
+    expect((await checkpoint.load())?.blockNumber).toBe(125);
+  });
+
+  it("keeps mints whose logs a lagging endpoint left out of the re-read tail", async () => {
+    const { tracker, provider } = open();
+    const events: unknown[] = [];
+    tracker.subscribe(e => events.push(e));
+    rpc.chain.logs.push(erc721Log(ZERO, ALICE, 4n, { block: 118, tx: 118 }));
+    await tracker.scan(0, 120);
+
+    // The same block, still canonical, but answered without its logs
+    rpc.chain.logs = rpc.chain.logs.filter(l => l.blockNumber !== 118);
+    expect(await tracker.scan(116, 120)).toBe(true);
+    expect(events.filter(e => (e as { type: string }).type === "reorg")).toEqual([]);
+    expect(tracker.recentMints().map(it => it.tokenId)).toEqual(["4", "3", "2", "1"]);
+
+    // Once the block itself changed, the missing logs count
+    rpc.chain.forks.set(118, blockHash(rpc.chain, 1118));
+    expect(await tracker.scan(116, 120)).toBe(true);
+    provider.destroy();
+    expect(events).toContainEqual({ type: "reorg", fromBlock: 118 });
+    expect(tracker.recentMints().map(it => it.tokenId)).toEqual(["3", "2", "1"]);
+  });
+});
@@ -9,14 +9,35 @@ export type MintItem = {
   blockNumber: number;
   txHash: string;
   logIndex: number;
+  subIndex?: number; // position within an ERC-1155 TransferBatch log
   contract: string;
   to: string;
   type: TokenType;
   tokenId?: string; // For ERC721, ERC1155
   amount?: string; // For ERC20, ERC1155
   timestamp?: number;
+  txValue?: string; // wei paid by the minting tx, shared by every mint in it
+  txFrom?: string; // lowercased sender of the minting tx
+  matchedBy?: MatchRule;
 };
 
+// Why a mint was accepted: its tx was sent to a whitelisted minter, or its
+// contract is a collection the registry knows was created by NFTS2ME
+export type MatchRule = "minter" | "registry";
+
+// A Transfer of a tracked collection after its mint; burns are transfers to the zero address
+export type TransferKind = "transfer" | "burn";
+
+export type TransferItem = Omit<MintItem, "txValue" | "txFrom" | "matchedBy"> & {
+  kind: TransferKind;
+  from: string;
+};
+
+export type ActivityItem = MintItem | TransferItem;
+
+// "mints" ignores secondary transfers; "all" records and shows them alongside mints
+export type ActivityMode = "mints" | "all";
+
 export type ContractMeta = {
   name?: string;
   symbol?: string;
@@ -32,4 +53,77 @@ export type CollSummary = {
   totalMintEvents: number;
   uniqueTokens: number;
   tokenIds: Set<string>;
+  burnEvents: number;
+  circulatingSupply: bigint; // minted minus burned units: tokens for ERC-721, amounts otherwise
+  holders: number; // addresses holding a positive balance of any token
+  owners: Map<string, Map<string, bigint>>; // tokenId ("" for ERC-20) -> holder -> balance
+};
+
+export type NetworkConfig = {
+  id: string; // slug used in the URL and localStorage
+  chainId: number;
+  name: string;
+  httpUrl: string;
+  wsUrl?: string;
+  extraHttpUrls?: string[]; // more endpoints the provider pool round-robins with httpUrl
+  extraWsUrls?: string[]; // tried in turn when the WebSocket reconnects
+  explorerUrl: string;
+  nativeSymbol?: string; // native currency symbol, "ETH" when omitted
+  mintContracts: string[]; // NFTS2ME factory/minter addresses a mint tx may target
+  factories?: FactoryConfig[]; // NFTS2ME factories whose creation events feed the collection registry
+  implementations?: string[]; // proxy implementations that fingerprint NFTS2ME collections
+  blockTimeMs: number; // rough hint, used for display only
+};
+
+export type RetentionSettings = {
+  maxRows: number; // 0 = unlimited
+  maxAgeDays: number; // 0 = unlimited
+};
+
+// User-supplied endpoints and limits for one network, on top of its configured endpoints
+export type RpcSettings = {
+  httpUrls: string[];
+  wsUrls: string[];
+  maxRps: number; // per endpoint, 0 = unlimited
+  maxConcurrency: number; // in-flight requests per endpoint, 0 = unlimited
+};
+
+export type TokenAttribute = {
+  trait_type?: string;
+  value: string | number;
+};
+
+export type TokenMetadata = {
+  name?: string;
+  description?: string;
+  image?: string; // already rewritten to an http(s) or data: URL
+  attributes: TokenAttribute[];
+};
+
+export type GatewaySettings = {
+  ipfs: string; // e.g. https://ipfs.io/ipfs/
+  arweave: string; // e.g. https://arweave.net/
+};
+
+export type AlertSettings = {
+  watchedContracts: string[];
+  watchedWallets: string[];
+  newCollection: boolean; // first mint of a contract not seen before
+  velocity: { enabled: boolean; mints: number; minutes: number }; // watched contracts only
+  walletMints: boolean; // a watched wallet receives a mint
+  browserNotifications: boolean;
+  webhookUrl: string; // empty disables the webhook
+};
+
+// Manual verdicts that beat the heuristics: allowed contracts are never flagged, denied ones always are
+export type RiskOverrides = {
+  allowed: string[];
+  denied: string[];
+};
+
+export type FactoryConfig = {
+  address: string;
+  event: string; // human-readable ABI, e.g. "event CollectionCreated(address indexed collection, address owner)"
+  collectionArg?: string; // event argument holding the new contract; defaults to the first address
+  deployBlock?: number; // past creation events are backfilled from here; without it only new ones are seen
 };